@@ -33,6 +33,11 @@ const configSchema = z.object({
     falsePositiveRate: z.number().default(0.001),
   }),
   
+  // Trash Configuration (0 keeps deleted entities until purged by hand)
+  trash: z.object({
+    retentionDays: z.number().min(0).default(30),
+  }),
+  
   // Multi-Context Configuration
   multiContext: z.object({
     personalDbPath: z.string().default('./data/personal.db'),
@@ -87,6 +92,11 @@ function loadConfig() {
         ? parseFloat(process.env.BLOOM_FILTER_FALSE_POSITIVE_RATE)
         : undefined,
     },
+    trash: {
+      retentionDays: process.env.TRASH_RETENTION_DAYS
+        ? parseFloat(process.env.TRASH_RETENTION_DAYS)
+        : undefined,
+    },
     multiContext: {
       personalDbPath: process.env.PERSONAL_DB_PATH,
       workDbPath: process.env.WORK_DB_PATH,
@@ -10,8 +10,9 @@ export class ContextConfidenceScorer {
   // Component weights (sum to 1.0) - tuned for optimal detection
   private readonly WEIGHTS = {
     entityExists: 0.25,      // Entity already in context
-    entityType: 0.30,        // Entity type matches config
-    keywordMatch: 0.35,      // Keyword pattern matches
+    entityType: 0.25,        // Entity type matches config
+    keywordMatch: 0.30,      // Keyword pattern matches
+    tagMatch: 0.10,          // Tags used in context or matching its config
     relationContext: 0.05,   // Related entities in context
     temporal: 0.05          // Recent activity bonus
   };
@@ -23,14 +24,17 @@ export class ContextConfidenceScorer {
   
   private contextPatterns: Map<string, RegExp[]> = new Map();
   private entityContextMap: Map<string, string> = new Map();
+  private tagContextMap: Map<string, Set<string>> = new Map();
   private recentContexts: Array<{ context: string; timestamp: number }> = [];
   private readonly maxRecent = 100;
   
   constructor(
     private contextConfigs: Record<string, DatabaseConfig>,
-    entityContextMap: Map<string, string>
+    entityContextMap: Map<string, string>,
+    tagContextMap: Map<string, Set<string>> = new Map()
   ) {
     this.entityContextMap = entityContextMap;
+    this.tagContextMap = tagContextMap;
     this.compilePatterns();
   }
   
@@ -71,6 +75,7 @@ export class ContextConfidenceScorer {
       entityExists: 0,
       entityType: 0,
       keywordMatch: 0,
+      tagMatch: 0,
       relationContext: 0,
       temporal: 0
     };
@@ -141,7 +146,34 @@ export class ContextConfidenceScorer {
       breakdown.keywordMatch = matchedPatterns.size / patterns.length;
     }
     
-    // 4. Relation context scoring
+    // 4. Tag matching: tags already used in the context, or naming its patterns or types
+    const tags = new Set<string>();
+    if (data.entities) {
+      for (const entity of data.entities) {
+        for (const tag of entity.tags || []) {
+          tags.add(tag.toLowerCase());
+        }
+      }
+    }
+    
+    if (tags.size > 0) {
+      const configTypes = new Set(this.contextConfigs[context]?.entityTypes || []);
+      let tagMatches = 0;
+      
+      for (const tag of tags) {
+        if (this.tagContextMap.get(tag)?.has(context)) {
+          tagMatches++;
+          evidence.push(`Tag '${tag}' used in ${context}`);
+        } else if (configTypes.has(tag) || patterns.some(pattern => pattern.test(tag))) {
+          tagMatches++;
+          evidence.push(`Tag '${tag}' matches ${context}`);
+        }
+      }
+      
+      breakdown.tagMatch = tagMatches / tags.size;
+    }
+    
+    // 5. Relation context scoring
     if (data.relations) {
       let relationMatches = 0;
       
@@ -164,7 +196,7 @@ export class ContextConfidenceScorer {
       }
     }
     
-    // 5. Temporal scoring (recent usage)
+    // 6. Temporal scoring (recent usage)
     breakdown.temporal = this.calculateTemporalScore(context);
     if (breakdown.temporal > 0.5) {
       evidence.push('Recently used context');
@@ -239,4 +271,5 @@ export class ContextConfidenceScorer {
   updateEntityContext(entityName: string, context: string): void {
     this.entityContextMap.set(entityName.toLowerCase(), context);
   }
+
 }
\ No newline at end of file
@@ -0,0 +1,427 @@
+/**
+ * Versioned schema migrations for Mem100x
+ * Upgrades existing database files in place, one ordered step at a time
+ */
+
+import Database from 'better-sqlite3';
+import { copyFileSync } from 'fs';
+import { 
+  getCompleteSchema, 
+  SCHEMA_VERSION_TABLE, 
+  FTS_DROP, 
+  SEARCH_CONTENT_VIEW, 
+  FTS_SCHEMA, 
+  FTS_REBUILD 
+} from './database-schema.js';
+import { MigrationError } from './errors.js';
+import { logInfo, logError } from './utils/logger.js';
+
+export interface Migration {
+  version: number;
+  description: string;
+  up?: (db: Database.Database) => void;
+  // Recreate the search view and index at their latest definition after the last step
+  rebuildSearchIndex?: boolean;
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  applied: number[];
+  backupPath?: string;
+}
+
+/**
+ * Version of the schema shipped before migrations existed.
+ * Databases without a schema_version table but with an entities table are at this version.
+ */
+export const BASELINE_SCHEMA_VERSION = 1;
+
+/**
+ * Ordered migration steps. Append new steps with the next version number and
+ * update getCompleteSchema() so fresh databases start at the same shape.
+ * Table changes are written out inline because the shared constants always
+ * describe the latest schema; the search view and index are derived objects and
+ * are recreated once from those constants when any step sets rebuildSearchIndex.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Convert entities_fts to an external-content index',
+    // The old standalone index was re-filled on every startup and holds duplicates
+    rebuildSearchIndex: true
+  },
+  {
+    version: 3,
+    description: 'Index plain observation text instead of compressed payloads',
+    rebuildSearchIndex: true
+  },
+  {
+    version: 4,
+    description: 'Store observations as rows with ids and timestamps',
+    rebuildSearchIndex: true,
+    up: (db) => {
+      // The search view and legacy triggers read entities.observations
+      db.exec(FTS_DROP);
+      db.exec(`
+        CREATE TABLE observations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          entity_name TEXT NOT NULL COLLATE NOCASE,
+          content TEXT NOT NULL,
+          source TEXT,
+          created_at REAL DEFAULT (julianday('now')),
+          FOREIGN KEY (entity_name) REFERENCES entities(name) ON DELETE CASCADE ON UPDATE CASCADE
+        );
+        CREATE INDEX idx_observations_entity ON observations(entity_name, id);
+
+        -- Array entries keep their stored (possibly compressed) form; the true
+        -- creation time is unknown, so the entity's last update stands in for it
+        INSERT INTO observations (entity_name, content, created_at)
+        SELECT e.name, CAST(j.value AS TEXT), e.updated_at
+        FROM entities e, json_each(e.observations) j
+        WHERE json_valid(e.observations) AND j.atom IS NOT NULL
+        ORDER BY e.rowid, j.key;
+
+        DROP INDEX IF EXISTS idx_observations;
+        ALTER TABLE entities DROP COLUMN observations;
+      `);
+    }
+  },
+  {
+    version: 5,
+    description: 'Record observation provenance (session, agent, confidence)',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE observations ADD COLUMN session_id TEXT;
+        ALTER TABLE observations ADD COLUMN agent TEXT;
+        ALTER TABLE observations ADD COLUMN confidence REAL;
+        CREATE INDEX idx_observations_session ON observations(session_id) WHERE session_id IS NOT NULL;
+        CREATE INDEX idx_observations_source ON observations(source) WHERE source IS NOT NULL;
+        CREATE INDEX idx_observations_agent ON observations(agent) WHERE agent IS NOT NULL;
+      `);
+    }
+  },
+  {
+    version: 6,
+    description: 'Add typed entity properties',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE entity_properties (
+          entity_name TEXT NOT NULL COLLATE NOCASE,
+          key TEXT NOT NULL COLLATE NOCASE,
+          value_type TEXT NOT NULL CHECK (value_type IN ('string', 'number', 'boolean', 'date')),
+          value_text TEXT,
+          value_number REAL,
+          updated_at REAL DEFAULT (julianday('now')),
+          PRIMARY KEY (entity_name, key),
+          FOREIGN KEY (entity_name) REFERENCES entities(name) ON DELETE CASCADE ON UPDATE CASCADE
+        ) WITHOUT ROWID;
+        CREATE INDEX idx_properties_text ON entity_properties(key, value_text);
+        CREATE INDEX idx_properties_number ON entity_properties(key, value_number);
+      `);
+    }
+  },
+  {
+    version: 7,
+    description: 'Add weight, confidence, metadata and assertion count to relations',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE relations ADD COLUMN weight REAL;
+        ALTER TABLE relations ADD COLUMN confidence REAL;
+        ALTER TABLE relations ADD COLUMN metadata TEXT;
+        ALTER TABLE relations ADD COLUMN count INTEGER NOT NULL DEFAULT 1;
+      `);
+    }
+  },
+  {
+    version: 8,
+    description: 'Add validity intervals to relations',
+    up: (db) => {
+      // The table-level UNIQUE constraint becomes a partial index over open relations,
+      // which SQLite can only do by rebuilding the table
+      db.exec(`
+        CREATE TABLE relations_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          from_entity TEXT NOT NULL COLLATE NOCASE,
+          to_entity TEXT NOT NULL COLLATE NOCASE,
+          relation_type TEXT NOT NULL,
+          weight REAL,
+          confidence REAL,
+          metadata TEXT,
+          count INTEGER NOT NULL DEFAULT 1,
+          valid_from REAL,
+          valid_to REAL,
+          created_at REAL DEFAULT (julianday('now')),
+          FOREIGN KEY (from_entity) REFERENCES entities(name) ON DELETE CASCADE,
+          FOREIGN KEY (to_entity) REFERENCES entities(name) ON DELETE CASCADE
+        );
+        INSERT INTO relations_new 
+          (id, from_entity, to_entity, relation_type, weight, confidence, metadata, count, created_at)
+        SELECT id, from_entity, to_entity, relation_type, weight, confidence, metadata, count, created_at
+        FROM relations;
+        DROP TABLE relations;
+        ALTER TABLE relations_new RENAME TO relations;
+
+        CREATE INDEX idx_from_entity ON relations(from_entity);
+        CREATE INDEX idx_to_entity ON relations(to_entity);
+        CREATE INDEX idx_relation_type ON relations(relation_type);
+        CREATE INDEX idx_relation_composite ON relations(from_entity, to_entity);
+        CREATE UNIQUE INDEX idx_relations_open 
+          ON relations(from_entity, to_entity, relation_type) WHERE valid_to IS NULL;
+      `);
+    }
+  },
+  {
+    version: 9,
+    description: 'Add the entity change history',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE entity_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          entity_name TEXT NOT NULL COLLATE NOCASE,
+          related_entity TEXT COLLATE NOCASE,
+          relation_id INTEGER,
+          operation TEXT NOT NULL,
+          before TEXT,
+          after TEXT,
+          created_at REAL DEFAULT (julianday('now'))
+        );
+        CREATE TRIGGER entity_history_no_update BEFORE UPDATE ON entity_history
+        BEGIN
+          SELECT RAISE(ABORT, 'entity_history is append-only');
+        END;
+        CREATE TRIGGER entity_history_no_delete BEFORE DELETE ON entity_history
+        BEGIN
+          SELECT RAISE(ABORT, 'entity_history is append-only');
+        END;
+        CREATE INDEX idx_history_entity ON entity_history(entity_name, id);
+        CREATE INDEX idx_history_related ON entity_history(related_entity, id) 
+          WHERE related_entity IS NOT NULL;
+      `);
+    }
+  },
+  {
+    version: 10,
+    description: 'Move deleted entities to a trash table',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE trash (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          entity_name TEXT NOT NULL COLLATE NOCASE,
+          payload TEXT NOT NULL,
+          deleted_at REAL DEFAULT (julianday('now'))
+        );
+        CREATE INDEX idx_trash_entity ON trash(entity_name, id);
+        CREATE INDEX idx_trash_deleted ON trash(deleted_at);
+      `);
+    }
+  },
+  {
+    version: 11,
+    description: 'Group history entries into undoable operations',
+    up: (db) => {
+      // Earlier history entries keep a NULL operation_id and cannot be undone
+      db.exec(`
+        CREATE TABLE operations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          undone_by INTEGER,
+          created_at REAL DEFAULT (julianday('now'))
+        );
+        CREATE INDEX idx_operations_pending ON operations(id) WHERE undone_by IS NULL;
+        ALTER TABLE entity_history ADD COLUMN operation_id INTEGER;
+        CREATE INDEX idx_history_operation ON entity_history(operation_id) 
+          WHERE operation_id IS NOT NULL;
+        ALTER TABLE trash ADD COLUMN operation_id INTEGER;
+      `);
+    }
+  },
+  {
+    version: 12,
+    description: 'Add entity aliases',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE entity_aliases (
+          alias TEXT PRIMARY KEY COLLATE NOCASE,
+          entity_name TEXT NOT NULL COLLATE NOCASE,
+          created_at REAL DEFAULT (julianday('now')),
+          FOREIGN KEY (entity_name) REFERENCES entities(name) ON DELETE CASCADE ON UPDATE CASCADE
+        );
+        CREATE INDEX idx_aliases_entity ON entity_aliases(entity_name);
+      `);
+    }
+  },
+  {
+    version: 13,
+    description: 'Index entity aliases for search',
+    rebuildSearchIndex: true
+  },
+  {
+    version: 14,
+    description: 'Add entity tags',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE entity_tags (
+          entity_name TEXT NOT NULL COLLATE NOCASE,
+          tag TEXT NOT NULL COLLATE NOCASE,
+          created_at REAL DEFAULT (julianday('now')),
+          PRIMARY KEY (entity_name, tag),
+          FOREIGN KEY (entity_name) REFERENCES entities(name) ON DELETE CASCADE ON UPDATE CASCADE
+        ) WITHOUT ROWID;
+        CREATE INDEX idx_tags_tag ON entity_tags(tag);
+      `);
+    }
+  },
+  {
+    version: 15,
+    description: 'Add per-context ontology',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE ontology (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          definition TEXT NOT NULL,
+          updated_at REAL DEFAULT (julianday('now'))
+        );
+      `);
+    }
+  },
+  {
+    version: 16,
+    description: 'Log entity changes as deltas',
+    up: (db) => {
+      // Earlier entries keep their full snapshots, which replays start from
+      db.exec('ALTER TABLE entity_history ADD COLUMN delta TEXT');
+    }
+  }
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS.reduce(
+  (latest, migration) => Math.max(latest, migration.version),
+  BASELINE_SCHEMA_VERSION
+);
+
+function tableExists(db: Database.Database, table: string): boolean {
+  return db.prepare(
+    "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?"
+  ).get(table) !== undefined;
+}
+
+/**
+ * Current schema version of an open database (0 for an empty file)
+ */
+export function getSchemaVersion(db: Database.Database): number {
+  if (tableExists(db, 'schema_version')) {
+    const row = db.prepare('SELECT MAX(version) as version FROM schema_version').get() as
+      { version: number | null };
+    if (row.version !== null) return row.version;
+  }
+  return tableExists(db, 'entities') ? BASELINE_SCHEMA_VERSION : 0;
+}
+
+function recordVersion(db: Database.Database, version: number, description: string): void {
+  db.prepare(
+    'INSERT OR REPLACE INTO schema_version (version, description) VALUES (?, ?)'
+  ).run(version, description);
+}
+
+function recreateSearchIndex(db: Database.Database): void {
+  db.exec(FTS_DROP);
+  db.exec(SEARCH_CONTENT_VIEW);
+  db.exec(FTS_SCHEMA);
+  db.exec(FTS_REBUILD);
+}
+
+function backupBeforeMigration(db: Database.Database, dbPath: string, fromVersion: number): string {
+  const backupPath = `${dbPath}.v${fromVersion}-${Date.now()}.bak`;
+  // Flush the WAL so the copied file holds every committed change
+  db.pragma('wal_checkpoint(TRUNCATE)');
+  copyFileSync(dbPath, backupPath);
+  return backupPath;
+}
+
+/**
+ * Bring a database up to LATEST_SCHEMA_VERSION.
+ * Fresh files get the complete schema directly; older files get a backup copy
+ * and then every pending migration inside a single transaction.
+ */
+export function runMigrations(db: Database.Database, dbPath: string): MigrationReport {
+  const fromVersion = getSchemaVersion(db);
+
+  if (fromVersion > LATEST_SCHEMA_VERSION) {
+    throw new MigrationError(
+      `Database schema version ${fromVersion} is newer than this build supports (${LATEST_SCHEMA_VERSION})`,
+      fromVersion,
+      LATEST_SCHEMA_VERSION,
+      { dbPath }
+    );
+  }
+
+  if (fromVersion === 0) {
+    db.transaction(() => {
+      db.exec(getCompleteSchema());
+      recordVersion(db, LATEST_SCHEMA_VERSION, 'Initial schema');
+    })();
+    return { fromVersion, toVersion: LATEST_SCHEMA_VERSION, applied: [] };
+  }
+
+  const pending = MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+
+  if (pending.length === 0) {
+    // Stamp legacy databases so later checks read the version directly
+    if (!tableExists(db, 'schema_version')) {
+      db.transaction(() => {
+        db.exec(SCHEMA_VERSION_TABLE);
+        recordVersion(db, fromVersion, 'Baseline schema');
+      })();
+    }
+    return { fromVersion, toVersion: fromVersion, applied: [] };
+  }
+
+  const backupPath = backupBeforeMigration(db, dbPath, fromVersion);
+  logInfo('Migrating database schema', {
+    dbPath,
+    fromVersion,
+    toVersion: LATEST_SCHEMA_VERSION,
+    backupPath
+  });
+
+  let current = fromVersion;
+  try {
+    db.transaction(() => {
+      db.exec(SCHEMA_VERSION_TABLE);
+      if (fromVersion === BASELINE_SCHEMA_VERSION) {
+        recordVersion(db, BASELINE_SCHEMA_VERSION, 'Baseline schema');
+      }
+      for (const migration of pending) {
+        current = migration.version;
+        migration.up?.(db);
+        recordVersion(db, migration.version, migration.description);
+      }
+      if (pending.some(migration => migration.rebuildSearchIndex)) {
+        recreateSearchIndex(db);
+      }
+    })();
+  } catch (error) {
+    logError('Schema migration failed, database left unchanged', error as Error, {
+      dbPath,
+      failedVersion: current,
+      backupPath
+    });
+    throw new MigrationError(
+      `Migration to schema version ${current} failed: ${(error as Error).message}`,
+      fromVersion,
+      current,
+      { dbPath, backupPath }
+    );
+  }
+
+  logInfo('Database schema migrated', { dbPath, fromVersion, toVersion: current });
+  return {
+    fromVersion,
+    toVersion: current,
+    applied: pending.map(migration => migration.version),
+    backupPath
+  };
+}
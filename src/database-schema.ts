@@ -14,89 +14,271 @@ export const PRAGMAS = `
   PRAGMA foreign_keys = ON;
 `;
 
+export const SCHEMA_VERSION_TABLE = `
+  -- One row per applied schema version; the highest version is current
+  CREATE TABLE IF NOT EXISTS schema_version (
+    version INTEGER PRIMARY KEY,
+    description TEXT NOT NULL,
+    applied_at REAL DEFAULT (julianday('now'))
+  );
+`;
+
 export const TABLES = `
   -- Entities table with full-text search support
   CREATE TABLE IF NOT EXISTS entities (
     name TEXT PRIMARY KEY COLLATE NOCASE,
     entity_type TEXT NOT NULL,
-    observations TEXT NOT NULL,
     created_at REAL DEFAULT (julianday('now')),
     updated_at REAL DEFAULT (julianday('now'))
   );
   
-  -- Relations table with efficient indexing
+  -- Observations, one row each; id order is insertion order.
+  -- content is plain text or a COMPRESSED:<version>:<base64> payload.
+  -- source, session_id, agent and confidence record who wrote the observation.
+  CREATE TABLE IF NOT EXISTS observations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    entity_name TEXT NOT NULL COLLATE NOCASE,
+    content TEXT NOT NULL,
+    source TEXT,
+    session_id TEXT,
+    agent TEXT,
+    confidence REAL,
+    created_at REAL DEFAULT (julianday('now')),
+    FOREIGN KEY (entity_name) REFERENCES entities(name) ON DELETE CASCADE ON UPDATE CASCADE
+  );
+  
+  -- Typed key/value properties; dates keep their ISO text and compare as epoch ms
+  CREATE TABLE IF NOT EXISTS entity_properties (
+    entity_name TEXT NOT NULL COLLATE NOCASE,
+    key TEXT NOT NULL COLLATE NOCASE,
+    value_type TEXT NOT NULL CHECK (value_type IN ('string', 'number', 'boolean', 'date')),
+    value_text TEXT,
+    value_number REAL,
+    updated_at REAL DEFAULT (julianday('now')),
+    PRIMARY KEY (entity_name, key),
+    FOREIGN KEY (entity_name) REFERENCES entities(name) ON DELETE CASCADE ON UPDATE CASCADE
+  ) WITHOUT ROWID;
+  
+  -- Other names of an entity, such as the names of entities merged into it
+  CREATE TABLE IF NOT EXISTS entity_aliases (
+    alias TEXT PRIMARY KEY COLLATE NOCASE,
+    entity_name TEXT NOT NULL COLLATE NOCASE,
+    created_at REAL DEFAULT (julianday('now')),
+    FOREIGN KEY (entity_name) REFERENCES entities(name) ON DELETE CASCADE ON UPDATE CASCADE
+  );
+  
+  -- Free-form labels on entities
+  CREATE TABLE IF NOT EXISTS entity_tags (
+    entity_name TEXT NOT NULL COLLATE NOCASE,
+    tag TEXT NOT NULL COLLATE NOCASE,
+    created_at REAL DEFAULT (julianday('now')),
+    PRIMARY KEY (entity_name, tag),
+    FOREIGN KEY (entity_name) REFERENCES entities(name) ON DELETE CASCADE ON UPDATE CASCADE
+  ) WITHOUT ROWID;
+  
+  -- Relations table with efficient indexing.
+  -- weight is edge strength (higher is stronger), metadata a JSON object,
+  -- count the number of times the relation has been asserted.
+  -- valid_from / valid_to bound when the relation holds (NULL = unbounded);
+  -- closed relations stay as history, so only the open one is unique.
   CREATE TABLE IF NOT EXISTS relations (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     from_entity TEXT NOT NULL COLLATE NOCASE,
     to_entity TEXT NOT NULL COLLATE NOCASE,
     relation_type TEXT NOT NULL,
+    weight REAL,
+    confidence REAL,
+    metadata TEXT,
+    count INTEGER NOT NULL DEFAULT 1,
+    valid_from REAL,
+    valid_to REAL,
     created_at REAL DEFAULT (julianday('now')),
-    UNIQUE(from_entity, to_entity, relation_type),
     FOREIGN KEY (from_entity) REFERENCES entities(name) ON DELETE CASCADE,
     FOREIGN KEY (to_entity) REFERENCES entities(name) ON DELETE CASCADE
   );
+  
+  -- One row per mutating call that changed something; its history entries carry
+  -- its id. undone_by is the undo operation that reverted it.
+  CREATE TABLE IF NOT EXISTS operations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    undone_by INTEGER,
+    created_at REAL DEFAULT (julianday('now'))
+  );
+  
+  -- Append-only change log. Relation operations are logged under from_entity with
+  -- related_entity = to_entity and before/after JSON snapshots of the relation
+  -- (NULL when absent). Entity operations store what changed in delta (see
+  -- EntityDelta in utils/entity-deltas.ts); the whole entity is only stored in
+  -- after when it appears and at regular checkpoints, and in before the first
+  -- time an entity older than the log is changed. A row with neither delta nor
+  -- after leaves the entity gone. Entries written before schema version 16 hold
+  -- full snapshots on both sides.
+  -- Rows outlive the entities they describe, so there is no foreign key.
+  CREATE TABLE IF NOT EXISTS entity_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    entity_name TEXT NOT NULL COLLATE NOCASE,
+    related_entity TEXT COLLATE NOCASE,
+    relation_id INTEGER,
+    operation TEXT NOT NULL,
+    before TEXT,
+    after TEXT,
+    created_at REAL DEFAULT (julianday('now')),
+    operation_id INTEGER,
+    delta TEXT
+  );
+  
+  CREATE TRIGGER IF NOT EXISTS entity_history_no_update BEFORE UPDATE ON entity_history
+  BEGIN
+    SELECT RAISE(ABORT, 'entity_history is append-only');
+  END;
+  
+  CREATE TRIGGER IF NOT EXISTS entity_history_no_delete BEFORE DELETE ON entity_history
+  BEGIN
+    SELECT RAISE(ABORT, 'entity_history is append-only');
+  END;
+  
+  -- Deleted entities, restorable until purged. payload is JSON holding the entity,
+  -- observation, property and relation rows exactly as they were stored.
+  CREATE TABLE IF NOT EXISTS trash (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    entity_name TEXT NOT NULL COLLATE NOCASE,
+    payload TEXT NOT NULL,
+    deleted_at REAL DEFAULT (julianday('now')),
+    operation_id INTEGER
+  );
+  
+  -- The context's ontology as JSON (see Ontology in types.ts); at most one row
+  CREATE TABLE IF NOT EXISTS ontology (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    definition TEXT NOT NULL,
+    updated_at REAL DEFAULT (julianday('now'))
+  );
 `;
 
 export const INDEXES = `
   -- Entity indexes for fast lookups
   CREATE INDEX IF NOT EXISTS idx_entity_type ON entities(entity_type);
   CREATE INDEX IF NOT EXISTS idx_entity_updated ON entities(updated_at DESC);
-  CREATE INDEX IF NOT EXISTS idx_observations ON entities(observations);
+  
+  -- Observation lookups per entity, in insertion order
+  CREATE INDEX IF NOT EXISTS idx_observations_entity ON observations(entity_name, id);
+  
+  -- Provenance lookups (e.g. everything one session wrote)
+  CREATE INDEX IF NOT EXISTS idx_observations_session ON observations(session_id) WHERE session_id IS NOT NULL;
+  CREATE INDEX IF NOT EXISTS idx_observations_source ON observations(source) WHERE source IS NOT NULL;
+  CREATE INDEX IF NOT EXISTS idx_observations_agent ON observations(agent) WHERE agent IS NOT NULL;
+  
+  -- Property filters by key and value
+  CREATE INDEX IF NOT EXISTS idx_properties_text ON entity_properties(key, value_text);
+  CREATE INDEX IF NOT EXISTS idx_properties_number ON entity_properties(key, value_number);
+  
+  -- Aliases per entity
+  CREATE INDEX IF NOT EXISTS idx_aliases_entity ON entity_aliases(entity_name);
+  
+  -- Entities by tag
+  CREATE INDEX IF NOT EXISTS idx_tags_tag ON entity_tags(tag);
   
   -- Relation indexes for efficient queries
   CREATE INDEX IF NOT EXISTS idx_from_entity ON relations(from_entity);
   CREATE INDEX IF NOT EXISTS idx_to_entity ON relations(to_entity);
   CREATE INDEX IF NOT EXISTS idx_relation_type ON relations(relation_type);
   CREATE INDEX IF NOT EXISTS idx_relation_composite ON relations(from_entity, to_entity);
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_relations_open 
+    ON relations(from_entity, to_entity, relation_type) WHERE valid_to IS NULL;
+  
+  -- Change history per entity, including relation changes on either end
+  CREATE INDEX IF NOT EXISTS idx_history_entity ON entity_history(entity_name, id);
+  CREATE INDEX IF NOT EXISTS idx_history_related ON entity_history(related_entity, id) 
+    WHERE related_entity IS NOT NULL;
+  CREATE INDEX IF NOT EXISTS idx_history_operation ON entity_history(operation_id) 
+    WHERE operation_id IS NOT NULL;
+  
+  -- Undo candidates
+  CREATE INDEX IF NOT EXISTS idx_operations_pending ON operations(id) WHERE undone_by IS NULL;
+  
+  -- Trash lookups by name and expiry
+  CREATE INDEX IF NOT EXISTS idx_trash_entity ON trash(entity_name, id);
+  CREATE INDEX IF NOT EXISTS idx_trash_deleted ON trash(deleted_at);
+`;
+
+/**
+ * SQL function (registered by MemoryDatabase on every connection) that turns a
+ * stored observation - plain or compressed - into searchable text.
+ * Any other connection reading entities_search must register it as well.
+ */
+export const OBSERVATION_TEXT_FUNCTION = 'mem100x_observation_text';
+
+export const SEARCH_CONTENT_VIEW = `
+  -- Plain-text projection of entities that the FTS index reads its content from.
+  -- Observations are joined by newlines in id order, aliases in alias order.
+  CREATE VIEW IF NOT EXISTS entities_search AS
+  SELECT
+    e.rowid AS rowid,
+    e.name AS name,
+    e.entity_type AS entity_type,
+    (SELECT group_concat(${OBSERVATION_TEXT_FUNCTION}(o.content), char(10) ORDER BY o.id)
+       FROM observations o
+      WHERE o.entity_name = e.name) AS observations,
+    (SELECT group_concat(a.alias, char(10) ORDER BY a.alias)
+       FROM entity_aliases a
+      WHERE a.entity_name = e.name) AS aliases
+  FROM entities e;
 `;
 
 export const FTS_SCHEMA = `
-  -- Create FTS5 virtual table for full-text search
+  -- External-content FTS5 index over entities_search (keyed by entities.rowid).
+  -- Only the index is stored here; column values are read back through the view.
+  -- MemoryDatabase keeps it in sync around every write, since a document spans
+  -- an entity row and all of its observation and alias rows.
+  -- VACUUM can renumber entities.rowid, so rebuild the index after a VACUUM.
   CREATE VIRTUAL TABLE IF NOT EXISTS entities_fts USING fts5(
     name,
     entity_type,
     observations,
+    aliases,
+    content='entities_search',
+    content_rowid='rowid',
     tokenize='unicode61'
   );
 `;
 
-export const FTS_TRIGGERS = `
-  -- Triggers to keep FTS table in sync with entities table
-  CREATE TRIGGER IF NOT EXISTS entities_fts_insert AFTER INSERT ON entities
-  BEGIN
-    INSERT INTO entities_fts(name, entity_type, observations)
-    VALUES (new.name, new.entity_type, new.observations);
-  END;
-  
-  CREATE TRIGGER IF NOT EXISTS entities_fts_update AFTER UPDATE ON entities
-  BEGIN
-    DELETE FROM entities_fts WHERE name = old.name;
-    INSERT INTO entities_fts(name, entity_type, observations)
-    VALUES (new.name, new.entity_type, new.observations);
-  END;
-  
-  CREATE TRIGGER IF NOT EXISTS entities_fts_delete AFTER DELETE ON entities
-  BEGIN
-    DELETE FROM entities_fts WHERE name = old.name;
-  END;
+// Per-document sync, run by MemoryDatabase before and after each write to an entity
+export const FTS_REMOVE_ENTITY = `
+  INSERT INTO entities_fts(entities_fts, rowid, name, entity_type, observations, aliases)
+  SELECT 'delete', rowid, name, entity_type, observations, aliases FROM entities_search WHERE name = ?
 `;
 
-export const FTS_REBUILD = `
-  -- Rebuild FTS index from existing data
-  INSERT INTO entities_fts(name, entity_type, observations)
-  SELECT name, entity_type, observations FROM entities;
+export const FTS_INDEX_ENTITY = `
+  INSERT INTO entities_fts(rowid, name, entity_type, observations, aliases)
+  SELECT rowid, name, entity_type, observations, aliases FROM entities_search WHERE name = ?
 `;
 
+// Also removes the sync triggers used up to schema version 3
+export const FTS_DROP = `
+  DROP TRIGGER IF EXISTS entities_fts_insert;
+  DROP TRIGGER IF EXISTS entities_fts_update;
+  DROP TRIGGER IF EXISTS entities_fts_delete;
+  DROP TABLE IF EXISTS entities_fts;
+  DROP VIEW IF EXISTS entities_search;
+`;
+
+// Maintenance commands for the external-content index; startup only rebuilds when the row counts disagree
+export const FTS_REBUILD = `INSERT INTO entities_fts(entities_fts) VALUES ('rebuild')`;
+export const FTS_OPTIMIZE = `INSERT INTO entities_fts(entities_fts) VALUES ('optimize')`;
+export const FTS_INTEGRITY_CHECK = `INSERT INTO entities_fts(entities_fts, rank) VALUES ('integrity-check', 1)`;
+
 /**
  * Get complete schema creation SQL
+ * Describes the latest schema version; existing databases reach it through migrations
  */
 export function getCompleteSchema(): string {
   return [
+    SCHEMA_VERSION_TABLE,
     TABLES,
     INDEXES,
-    FTS_SCHEMA,
-    FTS_TRIGGERS,
-    FTS_REBUILD
+    SEARCH_CONTENT_VIEW,
+    FTS_SCHEMA
   ].join('\n');
 }
 
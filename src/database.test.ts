@@ -0,0 +1,324 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Database from 'better-sqlite3';
+import { MemoryDatabase } from './database.js';
+import { MultiDatabaseManager } from './multi-database.js';
+import { config } from './config.js';
+import { AliasConflictError, EntityNotFoundError, InvalidInputError, UndoConflictError } from './errors.js';
+
+describe('MemoryDatabase search', () => {
+  let dir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mem100x-test-'));
+    dbPath = join(dir, 'memory.db');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('finds terms near the end of long, compressed observations', () => {
+    const observation = 'The quarterly planning notes repeat themselves. '.repeat(20) + 'Final word: zebracorn';
+    let db = new MemoryDatabase(dbPath);
+    db.createEntities([{ name: 'Notes', entityType: 'document', observations: [observation] }]);
+
+    const stored = new Database(dbPath, { readonly: true });
+    const row = stored.prepare('SELECT content FROM observations WHERE entity_name = ?').get('Notes') as { content: string };
+    stored.close();
+    expect(row.content.startsWith('COMPRESSED:')).toBe(true);
+
+    expect(db.searchNodes({ query: 'zebracorn' }).entities.map(e => e.name)).toEqual(['Notes']);
+    db.close();
+
+    db = new MemoryDatabase(dbPath);
+    const result = db.searchNodes({ query: 'zebracorn' });
+    expect(result.entities.map(e => e.name)).toEqual(['Notes']);
+    expect(result.entities[0].observations).toEqual([observation]);
+    db.close();
+  });
+
+  it('drops cached relation-filtered results when relations change', () => {
+    const db = new MemoryDatabase(dbPath);
+    db.createEntities([
+      { name: 'Alice', entityType: 'person', observations: ['feeds the zebrafinch'] },
+      { name: 'Bob', entityType: 'person', observations: ['owns a zebrafinch'] }
+    ]);
+    const knowing = () => db.searchNodes({ query: 'zebrafinch', hasRelationType: 'knows' }).entities.map(e => e.name).sort();
+
+    expect(knowing()).toEqual([]);
+    db.createRelations([{ from: 'Alice', to: 'Bob', relationType: 'knows' }]);
+    expect(knowing()).toEqual(['Alice', 'Bob']);
+    db.deleteRelations([{ from: 'Alice', to: 'Bob', relationType: 'knows' }]);
+    expect(knowing()).toEqual([]);
+    db.close();
+  });
+});
+
+describe('MemoryDatabase time travel', () => {
+  let dir: string;
+  let db: MemoryDatabase;
+
+  // An instant strictly between the writes before and after it
+  const instant = async () => {
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const at = new Date().toISOString();
+    await new Promise(resolve => setTimeout(resolve, 5));
+    return at;
+  };
+
+  const stateAt = (asOf: string) => db.openNodes(['Ann', 'Anna'], false, asOf).entities.map(entity => ({
+    name: entity.name,
+    observations: entity.observations,
+    properties: entity.properties
+  }));
+
+  const neighborsAt = (name: string, asOf: string) =>
+    db.getNeighbors(name, { direction: 'both', depth: 1, includeRelations: true, asOf }).entities.map(e => e.name);
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mem100x-test-'));
+    db = new MemoryDatabase(join(dir, 'memory.db'));
+  });
+
+  afterEach(() => {
+    db.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads every step of an entity\'s history back as of its time', async () => {
+    db.createEntities([
+      { name: 'Ann', entityType: 'person', observations: ['likes tea'] },
+      { name: 'Acme', entityType: 'company', observations: ['makes anvils'] }
+    ]);
+    db.createRelations([{ from: 'Ann', to: 'Acme', relationType: 'works_at' }]);
+    const created = await instant();
+    db.addObservations([{ entityName: 'Ann', contents: ['moved to Oslo'] }]);
+    const added = await instant();
+    db.setProperties([{ entityName: 'Ann', properties: { city: 'Oslo' } }]);
+    const propertySet = await instant();
+    db.deleteObservations([{ entityName: 'Ann', observations: ['likes tea'] }]);
+    const observationDeleted = await instant();
+    db.renameEntity('Ann', 'Anna');
+    const renamed = await instant();
+    db.deleteEntities(['Anna']);
+    const trashed = await instant();
+    db.restoreTrash(['Anna']);
+    const restored = await instant();
+
+    expect(stateAt(created)).toEqual([
+      { name: 'Ann', observations: ['likes tea'], properties: undefined }
+    ]);
+    expect(stateAt(added)).toEqual([
+      { name: 'Ann', observations: ['likes tea', 'moved to Oslo'], properties: undefined }
+    ]);
+    expect(stateAt(propertySet)).toEqual([
+      { name: 'Ann', observations: ['likes tea', 'moved to Oslo'], properties: { city: 'Oslo' } }
+    ]);
+    expect(stateAt(observationDeleted)).toEqual([
+      { name: 'Ann', observations: ['moved to Oslo'], properties: { city: 'Oslo' } }
+    ]);
+    expect(stateAt(renamed)).toEqual([
+      { name: 'Anna', observations: ['moved to Oslo'], properties: { city: 'Oslo' } }
+    ]);
+    expect(stateAt(trashed)).toEqual([]);
+    expect(stateAt(restored)).toEqual(stateAt(renamed));
+
+    // Traversal resolves entities and relations that are gone now
+    expect(neighborsAt('Acme', created)).toEqual(['Ann']);
+    expect(neighborsAt('Ann', observationDeleted)).toEqual(['Acme']);
+    expect(neighborsAt('Acme', renamed)).toEqual(['Anna']);
+    expect(neighborsAt('Acme', trashed)).toEqual([]);
+    expect(() => neighborsAt('Ann', restored)).toThrow(EntityNotFoundError);
+
+    // Filters apply to the properties of the time
+    const inOslo = (asOf: string) => db.searchNodes({
+      query: 'Oslo',
+      asOf,
+      propertyFilters: [{ key: 'city', op: 'eq', value: 'Oslo' }]
+    }).entities.map(e => e.name);
+    expect(inOslo(added)).toEqual([]);
+    expect(inOslo(propertySet)).toEqual(['Ann']);
+    expect(db.readGraph(undefined, 0, [{ key: 'city', op: 'eq', value: 'Oslo' }], renamed).entities.map(e => e.name))
+      .toEqual(['Anna']);
+  });
+});
+
+describe('MemoryDatabase changes', () => {
+  let dir: string;
+  let db: MemoryDatabase;
+
+  const observations = (name: string) => db.openNodes([name]).entities[0]?.observations;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mem100x-test-'));
+    db = new MemoryDatabase(join(dir, 'memory.db'));
+  });
+
+  afterEach(() => {
+    db.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('restores a trashed entity only once its name is free again', () => {
+    db.createEntities([
+      { name: 'Ann', entityType: 'person', observations: ['the first Ann'] },
+      { name: 'Acme', entityType: 'company', observations: ['makes anvils'] }
+    ]);
+    db.createRelations([{ from: 'Ann', to: 'Acme', relationType: 'works_at' }]);
+    db.deleteEntities(['Ann']);
+    db.createEntities([{ name: 'ann', entityType: 'person', observations: ['the second Ann'] }]);
+
+    expect(db.restoreTrash(['Ann'])).toEqual([]);
+    expect(db.listTrash().map(item => item.entity.name)).toEqual(['Ann']);
+    expect(observations('Ann')).toEqual(['the second Ann']);
+
+    db.renameEntity('ann', 'Ann Two');
+    const [restored] = db.restoreTrash(['Ann']);
+    expect(restored.entity.observations).toEqual(['the first Ann']);
+    expect(restored.relations.map(r => `${r.from}>${r.to}`)).toEqual(['Ann>Acme']);
+    expect(db.listTrash()).toEqual([]);
+    expect(observations('Ann Two')).toEqual(['the second Ann']);
+  });
+
+  it('undoes a later edit to an entity before an earlier one, and refuses when the entity changed outside the log', () => {
+    db.createEntities([{ name: 'Ann', entityType: 'person', observations: ['likes tea'] }]);
+    db.addObservations([{ entityName: 'Ann', contents: ['moved to Oslo'] }]);
+    db.setProperties([{ entityName: 'Ann', properties: { city: 'Oslo' } }]);
+
+    expect(db.undo(1).map(op => op.name)).toEqual(['set_properties']);
+    expect(db.getEntity('Ann')!.properties).toBeUndefined();
+    expect(observations('Ann')).toEqual(['likes tea', 'moved to Oslo']);
+
+    // Undo skips what was undone already
+    expect(db.undo(1).map(op => op.name)).toEqual(['add_observations']);
+    expect(observations('Ann')).toEqual(['likes tea']);
+
+    db.addObservations([{ entityName: 'Ann', contents: ['moved to Bergen'] }]);
+    const other = new Database(join(dir, 'memory.db'));
+    other.prepare('INSERT INTO entity_tags (entity_name, tag) VALUES (?, ?)').run('Ann', 'unlogged');
+    other.close();
+
+    expect(() => db.undo(1)).toThrow(UndoConflictError);
+    expect(observations('Ann')).toEqual(['likes tea', 'moved to Bergen']);
+  });
+
+  it('moves relations from and to a renamed entity', () => {
+    db.createEntities([
+      { name: 'Ann', entityType: 'person', observations: ['likes tea'] },
+      { name: 'Bob', entityType: 'person', observations: ['likes coffee'] },
+      { name: 'Acme', entityType: 'company', observations: ['makes anvils'] }
+    ]);
+    db.createRelations([
+      { from: 'Ann', to: 'Acme', relationType: 'works_at', weight: 2 },
+      { from: 'Bob', to: 'Ann', relationType: 'knows' }
+    ]);
+
+    const renamed = db.renameEntity('ann', 'Anna');
+    expect(renamed.name).toBe('Anna');
+    expect(renamed.observations).toEqual(['likes tea']);
+    expect(db.getEntity('Ann')).toBeUndefined();
+
+    const relations = db.getRelationsForEntities(['Anna']).map(r => `${r.from}>${r.to}:${r.relationType}`);
+    expect(relations.sort()).toEqual(['Anna>Acme:works_at', 'Bob>Anna:knows']);
+    expect(db.getRelationsForEntities(['Ann'])).toEqual([]);
+    expect(db.getNeighbors('Acme', { direction: 'both', depth: 1, includeRelations: true }).relations[0].weight).toBe(2);
+  });
+
+  it('folds merged entities into the target, moving their relations and keeping their names as aliases', () => {
+    db.createEntities([
+      { name: 'Ann', entityType: 'person', observations: ['likes tea'] },
+      { name: 'Annie', entityType: 'person', observations: ['likes tea', 'lives in Oslo'] },
+      { name: 'Acme', entityType: 'company', observations: ['makes anvils'] },
+      { name: 'Bob', entityType: 'person', observations: ['likes coffee'] }
+    ]);
+    db.createRelations([
+      { from: 'Ann', to: 'Acme', relationType: 'works_at' },
+      { from: 'Annie', to: 'Acme', relationType: 'works_at' },
+      { from: 'Annie', to: 'Bob', relationType: 'knows' },
+      { from: 'Annie', to: 'Ann', relationType: 'same_as' }
+    ]);
+
+    const result = db.mergeEntities('Ann', ['annie']);
+    expect(result.merged).toEqual(['Annie']);
+    expect(result.relationsMoved).toBe(1);
+    // A duplicate of Ann's works_at, and a self-loop
+    expect(result.relationsDropped).toBe(2);
+    expect(result.entity.observations).toEqual(['likes tea', 'lives in Oslo']);
+    expect(result.entity.aliases).toEqual(['Annie']);
+
+    const relations = db.getRelationsForEntities(['Ann']).map(r => `${r.from}>${r.to}:${r.relationType}`);
+    expect(relations.sort()).toEqual(['Ann>Acme:works_at', 'Ann>Bob:knows']);
+    expect(db.getEntity('Annie')!.name).toBe('Ann');
+  });
+
+  it('rejects creating or renaming an entity under an alias in use', () => {
+    db.createEntities([
+      { name: 'Acme', entityType: 'company', observations: ['makes anvils'] },
+      { name: 'Globex', entityType: 'company', observations: ['makes globes'] }
+    ]);
+    db.addAliases([{ entityName: 'Acme', aliases: ['Acme Corp'] }]);
+
+    expect(() => db.createEntities([{ name: 'acme corp', entityType: 'company', observations: ['a rival'] }]))
+      .toThrow(AliasConflictError);
+    expect(() => db.renameEntity('Globex', 'ACME CORP')).toThrow(AliasConflictError);
+    expect(db.getEntity('Acme Corp')!.name).toBe('Acme');
+    expect(db.getEntity('Globex')!.observations).toEqual(['makes globes']);
+  });
+});
+
+describe('Search pagination', () => {
+  let dir: string;
+  let manager: MultiDatabaseManager;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mem100x-test-'));
+    manager = new MultiDatabaseManager({
+      ...config,
+      multiContext: {
+        personalDbPath: join(dir, 'personal.db'),
+        workDbPath: join(dir, 'work.db'),
+        defaultContext: 'personal'
+      }
+    });
+  });
+
+  afterEach(() => {
+    manager.closeAll();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('walks nextCursor through every hit of every context exactly once', () => {
+    const notes = (prefix: string, count: number) => Array.from({ length: count }, (_, i) => ({
+      name: `${prefix} ${i}`,
+      entityType: 'note',
+      observations: [`mentions kestrel ${'again '.repeat(i % 4)}`]
+    }));
+    manager.createEntities(notes('Home', 7), 'personal');
+    manager.createEntities(notes('Office', 6), 'work');
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+    do {
+      const result = manager.searchNodes({ query: 'kestrel', limit: 4, cursor });
+      expect(result.page!.total).toBe(13);
+      seen.push(...result.entities.map(e => `${e._context}:${e.name}`));
+      cursor = result.page!.nextCursor;
+      expect(result.page!.hasMore).toBe(cursor !== undefined);
+      pages++;
+    } while (cursor !== undefined);
+
+    expect(pages).toBe(4);
+    expect(new Set(seen).size).toBe(seen.length);
+    expect(seen.sort()).toEqual([
+      ...notes('Home', 7).map(n => `personal:${n.name}`),
+      ...notes('Office', 6).map(n => `work:${n.name}`)
+    ].sort());
+    expect(() => manager.searchNodes({ query: 'falcon', cursor: manager.searchNodes({ query: 'kestrel', limit: 4 }).page!.nextCursor }))
+      .toThrow(InvalidInputError);
+  });
+});
@@ -4,20 +4,55 @@
  */
 
 import Database from 'better-sqlite3';
-import { existsSync, mkdirSync, copyFileSync, statSync } from 'fs';
+import { existsSync, mkdirSync, copyFileSync, statSync, rmSync } from 'fs';
 import { dirname } from 'path';
 import { 
   EntityRow, 
   RelationRow, 
+  ObservationRow,
   GraphResult, 
   EntityResult, 
   RelationResult,
+  ObservationRecord,
+  ObservationProvenance,
+  ObservationProvenanceInfo,
+  ObservationFilter,
+  PropertyRow,
+  PropertyUpdate,
+  PropertyFilter,
+  PropertyValue,
+  HistoryRow,
+  OperationRow,
+  UndoneOperation,
+  HistoryOperation,
+  HistorySnapshot,
+  HistoryEntry,
+  HistoryOptions,
+  TrashRow,
+  TrashPayload,
+  TrashItem,
+  TrashPurgeOptions,
+  MergeResult,
   DatabaseStats,
+  SearchIndexStatus,
+  SearchIndexAction,
+  SearchIndexReport,
   SearchOptions,
+  SearchQueryMode,
+  SearchWeights,
+  SearchMatch,
   CreateEntityInput,
   CreateRelationInput,
+  RelationConflictMode,
+  RelationClosure,
   ObservationUpdate,
   ObservationDeletion,
+  ObservationEdit,
+  AliasRow,
+  AliasUpdate,
+  TagUpdate,
+  TagMatchMode,
+  Ontology,
   GetNeighborsOptions,
   FindShortestPathOptions,
   ShortestPathResult
@@ -25,20 +60,150 @@ import {
 import { ICache, createStringCache } from './utils/cache-interface.js';
 import { CountingBloomFilter } from './utils/counting-bloom-filter.js';
 import { CompressionUtils } from './utils/compression.js';
-import { getCompleteSchema, getPragmas } from './database-schema.js';
+import { encodePropertyValue, decodePropertyValue } from './utils/property-values.js';
+import { MATCH_START, MATCH_END, ftsMatch, substringMatch, onlyMatchedObservations } from './utils/search-matches.js';
+import { OntologyValidator } from './utils/ontology.js';
+import {
+  EntityState,
+  EntityFields,
+  EntityDelta,
+  diffEntityStates,
+  diffEntityFields,
+  applyEntityDelta,
+  sameEntityState
+} from './utils/entity-deltas.js';
+import { 
+  getPragmas, 
+  OBSERVATION_TEXT_FUNCTION, 
+  FTS_INDEX_ENTITY, 
+  FTS_REMOVE_ENTITY, 
+  FTS_REBUILD, 
+  FTS_OPTIMIZE, 
+  FTS_INTEGRITY_CHECK 
+} from './database-schema.js';
+import { runMigrations, getSchemaVersion } from './database-migrations.js';
+import { 
+  breadthFirstTraversal, 
+  bidirectionalShortestPath, 
+  dijkstraShortestPath, 
+  edgeCost, 
+  TraversalDirection 
+} from './utils/graph-traversal.js';
+import { 
+  EntityNotFoundError, 
+  DuplicateEntityError, 
+  AliasConflictError, 
+  InvalidInputError, 
+  UndoConflictError 
+} from './errors.js';
 import { 
   logger, 
   logInfo, 
   logDebug, 
   logError, 
+  logWarn, 
   PerformanceTracker 
 } from './utils/logger.js';
-import { 
-  stringifyObservations, 
-  parseObservations 
-} from './utils/fast-json.js';
 import { config } from './config.js';
 
+// SQLite julianday() values as ISO 8601 timestamps
+function julianToIso(julian: number): string {
+  // Rounded so that converting back and forth keeps the same millisecond
+  return new Date(Math.round((julian - 2440587.5) * 86400000)).toISOString();
+}
+
+// ISO 8601 timestamps as julianday() values; undefined means now
+function isoToJulian(iso: string | undefined, field: string): number {
+  const time = iso === undefined ? Date.now() : Date.parse(iso);
+  if (!Number.isFinite(time)) {
+    throw new InvalidInputError(field, iso, 'an ISO 8601 date');
+  }
+  return time / 86400000 + 2440587.5;
+}
+
+// Snapshots from the change log carry provenance, which reads only return on request
+function stripProvenance(entity: EntityResult): EntityResult {
+  const { provenance, ...rest } = entity;
+  return rest;
+}
+
+// Relations that hold at a julianday instant (bound twice)
+const RELATION_VALID_AT = '(valid_from IS NULL OR valid_from <= ?) AND (valid_to IS NULL OR valid_to > ?)';
+
+// Search queries; extra conditions on entities (alias e) are ANDed into the WHERE clause.
+// FTS hits are ranked by bm25 with one weight per column (name, entity_type, observations, aliases).
+// Ties are broken by name so that pages of the same search never overlap.
+function ftsSearchSql(conditions: string = ''): string {
+  return `
+    SELECT e.*, e.rowid AS rowid, -bm25(entities_fts, ?, ?, ?, ?) AS score FROM entities_fts
+    JOIN entities e ON e.rowid = entities_fts.rowid
+    WHERE entities_fts MATCH ?${conditions} ORDER BY score DESC, e.name LIMIT ? OFFSET ?
+  `;
+}
+
+// Simple queries match any term as a prefix; advanced ones are FTS5 syntax already
+function toFtsQuery(query: string, queryMode: SearchQueryMode): string {
+  return queryMode === 'advanced'
+    ? query
+    : query.split(/\s+/)
+        .filter(term => term.length > 0)
+        .map(term => `"${term}"*`)
+        .join(' OR ');
+}
+
+function ftsCountSql(conditions: string = ''): string {
+  return `
+    SELECT COUNT(*) AS count FROM entities_fts
+    JOIN entities e ON e.rowid = entities_fts.rowid
+    WHERE entities_fts MATCH ?${conditions}
+  `;
+}
+
+const DEFAULT_SEARCH_WEIGHTS: Required<SearchWeights> = {
+  name: 10,
+  entityType: 5,
+  observations: 1,
+  aliases: 8
+};
+
+const LIKE_MATCH = '(s.name LIKE ? OR s.entity_type LIKE ? OR s.observations LIKE ? OR s.aliases LIKE ?)';
+
+function likeSearchSql(conditions: string = ''): string {
+  return `
+    SELECT e.* FROM entities_search s
+    JOIN entities e ON e.rowid = s.rowid
+    WHERE ${LIKE_MATCH}${conditions}
+    ORDER BY e.updated_at DESC, e.name LIMIT ? OFFSET ?
+  `;
+}
+
+function likeCountSql(conditions: string = ''): string {
+  return `
+    SELECT COUNT(*) AS count FROM entities_search s
+    JOIN entities e ON e.rowid = s.rowid
+    WHERE ${LIKE_MATCH}${conditions}
+  `;
+}
+
+const PROPERTY_OPERATORS: Record<PropertyFilter['op'], string> = {
+  eq: '=',
+  ne: '!=',
+  lt: '<',
+  lte: '<=',
+  gt: '>',
+  gte: '>='
+};
+
+// The same comparisons for property values outside SQL, e.g. those of past entity states
+const PROPERTY_COMPARISONS: Record<PropertyFilter['op'], (a: string | number, b: string | number) => boolean> = {
+  eq: (a, b) => a === b,
+  ne: (a, b) => a !== b,
+  lt: (a, b) => a < b,
+  lte: (a, b) => a <= b,
+  gt: (a, b) => a > b,
+  gte: (a, b) => a >= b
+};
+
 export class MemoryDatabase {
   private db!: Database.Database;
   private readonly dbPath: string;
@@ -46,25 +211,97 @@ export class MemoryDatabase {
   // Performance optimizations
   private readonly entityCache: ICache<string, EntityResult>;
   private readonly searchCache: ICache<string, GraphResult>;
+  // Entity names and aliases; aliases are never removed, as a stale entry only costs a lookup
   private entityBloom!: CountingBloomFilter;
   private readonly compressionEnabled: boolean = config.performance.compressionEnabled;
   private readonly relationQueryThreshold: number = config.performance.relationQueryThreshold;
+  private readonly trashRetentionDays: number = config.trash.retentionDays;
+  // Checks entity and relation writes; null when the context has no ontology
+  private ontology: OntologyValidator | null = null;
+  private static readonly IN_CLAUSE_CHUNK = 500;
+  // Entity history entries between full snapshots, which bounds the deltas a replay applies
+  private static readonly HISTORY_CHECKPOINT_INTERVAL = 100;
   
   // Transaction management
   private transactionDepth: number = 0;
   private isInTransaction: boolean = false;
 
+  // Undoable operation the current write belongs to (see operation())
+  private currentOperation: { id: number; changes: number } | null = null;
+
   // Prepared statements for maximum performance
   private statements: {
     createEntity?: Database.Statement;
     getEntity?: Database.Statement;
     searchEntities?: Database.Statement;
     searchEntitiesLike?: Database.Statement;
+    countSearchEntities?: Database.Statement;
+    countSearchEntitiesLike?: Database.Statement;
     createRelation?: Database.Statement;
+    reinforceRelation?: Database.Statement;
     deleteEntity?: Database.Statement;
     deleteRelation?: Database.Statement;
-    updateObservations?: Database.Statement;
+    closeRelation?: Database.Statement;
+    getOpenRelation?: Database.Statement;
+    getRelationsTouching?: Database.Statement;
+    insertHistory?: Database.Statement;
+    getEntityHistoryChain?: Database.Statement;
+    insertOperation?: Database.Statement;
+    deleteOperation?: Database.Statement;
+    markOperationUndone?: Database.Statement;
+    getOperationHistory?: Database.Statement;
+    insertTrash?: Database.Statement;
+    deleteTrashByOperation?: Database.Statement;
+    getLatestTrash?: Database.Statement;
+    deleteTrash?: Database.Statement;
+    restoreEntity?: Database.Statement;
+    restoreObservation?: Database.Statement;
+    restoreProperty?: Database.Statement;
+    restoreRelation?: Database.Statement;
+    getRelationById?: Database.Statement;
+    deleteRelationById?: Database.Statement;
+    rewriteRelation?: Database.Statement;
+    repointRelation?: Database.Statement;
+    absorbRelation?: Database.Statement;
+    moveObservation?: Database.Statement;
+    copyProperties?: Database.Statement;
+    getAliases?: Database.Statement;
+    getAlias?: Database.Statement;
+    setAlias?: Database.Statement;
+    addAlias?: Database.Statement;
+    deleteAlias?: Database.Statement;
+    restoreAlias?: Database.Statement;
+    moveAliases?: Database.Statement;
+    deleteEntityAliases?: Database.Statement;
+    getTags?: Database.Statement;
+    addTag?: Database.Statement;
+    deleteTag?: Database.Statement;
+    copyTags?: Database.Statement;
+    deleteEntityTags?: Database.Statement;
+    deleteEntityObservations?: Database.Statement;
+    deleteEntityProperties?: Database.Statement;
+    renameEntity?: Database.Statement;
+    renameRelationsFrom?: Database.Statement;
+    renameRelationsTo?: Database.Statement;
+    getObservations?: Database.Statement;
+    getObservationIds?: Database.Statement;
+    getObservationsById?: Database.Statement;
+    getProperties?: Database.Statement;
+    setProperty?: Database.Statement;
+    deleteProperty?: Database.Statement;
+    findObservations?: Database.Statement;
+    insertObservation?: Database.Statement;
+    updateObservation?: Database.Statement;
+    deleteObservation?: Database.Statement;
+    deleteObservationsByContent?: Database.Statement;
+    touchEntity?: Database.Statement;
+    ftsIndexEntity?: Database.Statement;
+    ftsRemoveEntity?: Database.Statement;
     getRelationsByEntity?: Database.Statement;
+    getOutgoingRelations?: Database.Statement;
+    getIncomingRelations?: Database.Statement;
+    getOutgoingRelationsByType?: Database.Statement;
+    getIncomingRelationsByType?: Database.Statement;
     getEntityStats?: Database.Statement;
   } = {};
 
@@ -105,44 +342,77 @@ export class MemoryDatabase {
       this.db.exec(pragma);
     }
 
-    // Create schema
-    this.db.exec(getCompleteSchema());
+    // SQL functions must exist before migrations or the search view are used
+    this.registerFunctions();
+
+    // Create or upgrade schema (runMigrations logs what it applies)
+    runMigrations(this.db, this.dbPath);
 
     // Prepare statements for performance
     this.prepareStatements();
 
+    // Repair the search index only when it has drifted from entities
+    this.ensureSearchIndexConsistency();
+
+    this.purgeExpiredTrash();
+
+    const ontologyRow = this.db.prepare('SELECT definition FROM ontology').get() as { definition: string } | undefined;
+    if (ontologyRow) {
+      this.ontology = new OntologyValidator(JSON.parse(ontologyRow.definition));
+    }
+
     perf.end({ status: 'success' });
   }
 
+  private registerFunctions(): void {
+    // Search always sees plain text, whatever the compression setting was at write time
+    this.db.function(OBSERVATION_TEXT_FUNCTION, { deterministic: true }, (content: unknown) =>
+      typeof content === 'string' ? CompressionUtils.decompressObservation(content) : ''
+    );
+  }
+
   private prepareStatements(): void {
     this.statements.createEntity = this.db.prepare(`
-      INSERT INTO entities (name, entity_type, observations)
-      VALUES (?, ?, ?)
+      INSERT INTO entities (name, entity_type)
+      VALUES (?, ?)
       ON CONFLICT(name) DO UPDATE SET
         entity_type = excluded.entity_type,
-        observations = excluded.observations,
         updated_at = julianday('now')
+      RETURNING rowid
     `);
 
     this.statements.getEntity = this.db.prepare(
       'SELECT * FROM entities WHERE name = ?'
     );
 
-    this.statements.searchEntities = this.db.prepare(`
-      SELECT e.* FROM entities e
-      JOIN entities_fts ON e.name = entities_fts.name
-      WHERE entities_fts MATCH ? ORDER BY rank LIMIT ?
-    `);
+    this.statements.searchEntities = this.db.prepare(ftsSearchSql());
+    this.statements.searchEntitiesLike = this.db.prepare(likeSearchSql());
+    this.statements.countSearchEntities = this.db.prepare(ftsCountSql());
+    this.statements.countSearchEntitiesLike = this.db.prepare(likeCountSql());
 
-    this.statements.searchEntitiesLike = this.db.prepare(`
-      SELECT * FROM entities 
-      WHERE name LIKE ? OR entity_type LIKE ? OR observations LIKE ?
-      ORDER BY updated_at DESC LIMIT ?
+    // Only open relations (valid_to IS NULL) conflict; bounded ones are always inserted
+    this.statements.createRelation = this.db.prepare(`
+      INSERT INTO relations 
+        (from_entity, to_entity, relation_type, weight, confidence, metadata, valid_from, valid_to)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(from_entity, to_entity, relation_type) WHERE valid_to IS NULL DO NOTHING
+      RETURNING *
     `);
 
-    this.statements.createRelation = this.db.prepare(`
-      INSERT OR IGNORE INTO relations (from_entity, to_entity, relation_type)
-      VALUES (?, ?, ?)
+    // Metadata is merged key by key (RFC 7396), other attributes are replaced when given
+    this.statements.reinforceRelation = this.db.prepare(`
+      INSERT INTO relations 
+        (from_entity, to_entity, relation_type, weight, confidence, metadata, valid_from, valid_to)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(from_entity, to_entity, relation_type) WHERE valid_to IS NULL DO UPDATE SET
+        count = count + 1,
+        weight = COALESCE(excluded.weight, weight),
+        confidence = COALESCE(excluded.confidence, confidence),
+        metadata = CASE
+          WHEN excluded.metadata IS NULL THEN metadata
+          ELSE json_patch(COALESCE(metadata, '{}'), excluded.metadata)
+        END
+      RETURNING *
     `);
 
     this.statements.deleteEntity = this.db.prepare(
@@ -150,29 +420,309 @@ export class MemoryDatabase {
     );
 
     this.statements.deleteRelation = this.db.prepare(
-      'DELETE FROM relations WHERE from_entity = ? AND to_entity = ? AND relation_type = ?'
+      'DELETE FROM relations WHERE from_entity = ? AND to_entity = ? AND relation_type = ? RETURNING *'
+    );
+
+    this.statements.getOpenRelation = this.db.prepare(`
+      SELECT * FROM relations 
+      WHERE from_entity = ? AND to_entity = ? AND relation_type = ? AND valid_to IS NULL
+    `);
+
+    this.statements.getRelationsTouching = this.db.prepare(
+      'SELECT * FROM relations WHERE from_entity = ? OR to_entity = ?'
+    );
+
+    this.statements.insertHistory = this.db.prepare(`
+      INSERT INTO entity_history (entity_name, related_entity, relation_id, operation, before, after, delta, operation_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.statements.getEntityHistoryChain = this.db.prepare(`
+      SELECT * FROM entity_history WHERE entity_name = ? AND relation_id IS NULL AND id <= ?
+      ORDER BY id DESC
+    `);
+
+    this.statements.insertOperation = this.db.prepare(
+      'INSERT INTO operations (name) VALUES (?) RETURNING id'
+    );
+
+    this.statements.deleteOperation = this.db.prepare(
+      'DELETE FROM operations WHERE id = ?'
+    );
+
+    this.statements.markOperationUndone = this.db.prepare(
+      'UPDATE operations SET undone_by = ? WHERE id = ?'
+    );
+
+    this.statements.getOperationHistory = this.db.prepare(
+      'SELECT * FROM entity_history WHERE operation_id = ? ORDER BY id DESC'
+    );
+
+    this.statements.insertTrash = this.db.prepare(
+      'INSERT INTO trash (entity_name, payload, operation_id) VALUES (?, ?, ?)'
+    );
+
+    this.statements.deleteTrashByOperation = this.db.prepare(
+      'DELETE FROM trash WHERE operation_id = ?'
+    );
+
+    this.statements.getLatestTrash = this.db.prepare(
+      'SELECT * FROM trash WHERE entity_name = ? ORDER BY id DESC LIMIT 1'
+    );
+
+    this.statements.deleteTrash = this.db.prepare(
+      'DELETE FROM trash WHERE id = ?'
+    );
+
+    // Restores put trashed rows back with their original ids and timestamps
+    this.statements.restoreEntity = this.db.prepare(`
+      INSERT INTO entities (name, entity_type, created_at, updated_at)
+      VALUES (@name, @entity_type, @created_at, @updated_at)
+    `);
+
+    this.statements.restoreObservation = this.db.prepare(`
+      INSERT INTO observations (id, entity_name, content, source, session_id, agent, confidence, created_at)
+      VALUES (@id, @entity_name, @content, @source, @session_id, @agent, @confidence, @created_at)
+    `);
+
+    this.statements.restoreProperty = this.db.prepare(`
+      INSERT INTO entity_properties (entity_name, key, value_type, value_text, value_number, updated_at)
+      VALUES (@entity_name, @key, @value_type, @value_text, @value_number, @updated_at)
+    `);
+
+    // A relation re-created since the delete keeps its place
+    this.statements.restoreRelation = this.db.prepare(`
+      INSERT OR IGNORE INTO relations 
+        (id, from_entity, to_entity, relation_type, weight, confidence, metadata, count, valid_from, valid_to, created_at)
+      VALUES (@id, @from_entity, @to_entity, @relation_type, @weight, @confidence, @metadata, @count, 
+        @valid_from, @valid_to, @created_at)
+      RETURNING *
+    `);
+
+    this.statements.getRelationById = this.db.prepare(
+      'SELECT * FROM relations WHERE id = ?'
+    );
+
+    this.statements.deleteRelationById = this.db.prepare(
+      'DELETE FROM relations WHERE id = ? RETURNING *'
+    );
+
+    this.statements.rewriteRelation = this.db.prepare(`
+      UPDATE relations 
+      SET from_entity = @from_entity, to_entity = @to_entity, relation_type = @relation_type,
+        weight = @weight, confidence = @confidence, metadata = @metadata, count = @count,
+        valid_from = @valid_from, valid_to = @valid_to
+      WHERE id = @id
+      RETURNING *
+    `);
+
+    this.statements.repointRelation = this.db.prepare(
+      'UPDATE relations SET from_entity = ?, to_entity = ? WHERE id = ? RETURNING *'
+    );
+
+    // Folds a duplicate into a relation: counts add up, the relation's own attributes win
+    this.statements.absorbRelation = this.db.prepare(`
+      UPDATE relations SET
+        count = count + @count,
+        weight = COALESCE(weight, @weight),
+        confidence = COALESCE(confidence, @confidence),
+        metadata = CASE
+          WHEN @metadata IS NULL THEN metadata
+          ELSE json_patch(@metadata, COALESCE(metadata, '{}'))
+        END
+      WHERE id = @id
+      RETURNING *
+    `);
+
+    this.statements.moveObservation = this.db.prepare(
+      'UPDATE observations SET entity_name = ? WHERE id = ?'
+    );
+
+    this.statements.copyProperties = this.db.prepare(`
+      INSERT OR IGNORE INTO entity_properties (entity_name, key, value_type, value_text, value_number, updated_at)
+      SELECT ?, key, value_type, value_text, value_number, updated_at FROM entity_properties WHERE entity_name = ?
+    `);
+
+    this.statements.getAliases = this.db.prepare(
+      'SELECT alias FROM entity_aliases WHERE entity_name = ? ORDER BY alias'
+    );
+
+    this.statements.getAlias = this.db.prepare(
+      'SELECT * FROM entity_aliases WHERE alias = ?'
+    );
+
+    this.statements.setAlias = this.db.prepare(`
+      INSERT INTO entity_aliases (alias, entity_name) VALUES (?, ?)
+      ON CONFLICT(alias) DO UPDATE SET entity_name = excluded.entity_name
+    `);
+
+    // Restores never take an alias over from another entity
+    this.statements.restoreAlias = this.db.prepare(
+      'INSERT OR IGNORE INTO entity_aliases (alias, entity_name) VALUES (?, ?)'
+    );
+
+    this.statements.addAlias = this.db.prepare(
+      'INSERT INTO entity_aliases (alias, entity_name) VALUES (?, ?)'
+    );
+
+    this.statements.deleteAlias = this.db.prepare(
+      'DELETE FROM entity_aliases WHERE alias = ? AND entity_name = ?'
+    );
+
+    this.statements.moveAliases = this.db.prepare(
+      'UPDATE entity_aliases SET entity_name = ? WHERE entity_name = ?'
+    );
+
+    this.statements.deleteEntityAliases = this.db.prepare(
+      'DELETE FROM entity_aliases WHERE entity_name = ?'
+    );
+
+    this.statements.getTags = this.db.prepare(
+      'SELECT tag FROM entity_tags WHERE entity_name = ? ORDER BY tag'
+    );
+
+    this.statements.addTag = this.db.prepare(
+      'INSERT OR IGNORE INTO entity_tags (entity_name, tag) VALUES (?, ?)'
+    );
+
+    this.statements.deleteTag = this.db.prepare(
+      'DELETE FROM entity_tags WHERE entity_name = ? AND tag = ?'
+    );
+
+    this.statements.copyTags = this.db.prepare(`
+      INSERT OR IGNORE INTO entity_tags (entity_name, tag, created_at)
+      SELECT ?, tag, created_at FROM entity_tags WHERE entity_name = ?
+    `);
+
+    this.statements.deleteEntityTags = this.db.prepare(
+      'DELETE FROM entity_tags WHERE entity_name = ?'
+    );
+
+    this.statements.deleteEntityObservations = this.db.prepare(
+      'DELETE FROM observations WHERE entity_name = ?'
+    );
+
+    this.statements.deleteEntityProperties = this.db.prepare(
+      'DELETE FROM entity_properties WHERE entity_name = ?'
+    );
+
+    // Observations and properties follow through ON UPDATE CASCADE, relations do not
+    this.statements.renameEntity = this.db.prepare(
+      'UPDATE entities SET name = ?, updated_at = julianday(\'now\') WHERE name = ?'
+    );
+
+    this.statements.renameRelationsFrom = this.db.prepare(
+      'UPDATE relations SET from_entity = ? WHERE from_entity = ?'
+    );
+
+    this.statements.renameRelationsTo = this.db.prepare(
+      'UPDATE relations SET to_entity = ? WHERE to_entity = ?'
+    );
+
+    this.statements.closeRelation = this.db.prepare(`
+      UPDATE relations SET valid_to = ?
+      WHERE from_entity = ? AND to_entity = ? AND relation_type = ?
+        AND valid_to IS NULL AND (valid_from IS NULL OR valid_from <= ?)
+      RETURNING *
+    `);
+
+    this.statements.getObservations = this.db.prepare(
+      'SELECT * FROM observations WHERE entity_name = ? ORDER BY id'
+    );
+
+    this.statements.getObservationIds = this.db.prepare(
+      'SELECT id FROM observations WHERE entity_name = ? ORDER BY id'
+    ).pluck();
+
+    this.statements.getObservationsById = this.db.prepare(
+      'SELECT * FROM observations WHERE id IN (SELECT value FROM json_each(?)) ORDER BY id'
+    );
+
+    // Stored content may be plain or compressed, so lookups match either form
+    this.statements.findObservations = this.db.prepare(
+      'SELECT id FROM observations WHERE entity_name = ? AND content IN (?, ?)'
+    );
+
+    this.statements.insertObservation = this.db.prepare(
+      `INSERT INTO observations (entity_name, content, source, session_id, agent, confidence)
+       VALUES (?, ?, ?, ?, ?, ?) RETURNING *`
+    );
+
+    this.statements.updateObservation = this.db.prepare(
+      'UPDATE observations SET content = ? WHERE entity_name = ? AND id = ? RETURNING *'
+    );
+
+    this.statements.deleteObservation = this.db.prepare(
+      'DELETE FROM observations WHERE entity_name = ? AND id = ?'
     );
 
-    this.statements.updateObservations = this.db.prepare(
-      'UPDATE entities SET observations = ?, updated_at = julianday(\'now\') WHERE name = ?'
+    this.statements.deleteObservationsByContent = this.db.prepare(
+      'DELETE FROM observations WHERE entity_name = ? AND content IN (?, ?)'
     );
 
+    this.statements.getProperties = this.db.prepare(
+      'SELECT * FROM entity_properties WHERE entity_name = ? ORDER BY key'
+    );
+
+    this.statements.setProperty = this.db.prepare(`
+      INSERT INTO entity_properties (entity_name, key, value_type, value_text, value_number)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(entity_name, key) DO UPDATE SET
+        value_type = excluded.value_type,
+        value_text = excluded.value_text,
+        value_number = excluded.value_number,
+        updated_at = julianday('now')
+    `);
+
+    this.statements.deleteProperty = this.db.prepare(
+      'DELETE FROM entity_properties WHERE entity_name = ? AND key = ?'
+    );
+
+    this.statements.touchEntity = this.db.prepare(
+      'UPDATE entities SET updated_at = julianday(\'now\') WHERE name = ?'
+    );
+
+    this.statements.ftsIndexEntity = this.db.prepare(FTS_INDEX_ENTITY);
+    this.statements.ftsRemoveEntity = this.db.prepare(FTS_REMOVE_ENTITY);
+
     this.statements.getRelationsByEntity = this.db.prepare(`
       SELECT * FROM relations 
       WHERE from_entity = ? OR to_entity = ?
     `);
 
+    // Adjacency lookups for graph traversal (served by idx_from_entity / idx_to_entity)
+    this.statements.getOutgoingRelations = this.db.prepare(
+      `SELECT * FROM relations WHERE from_entity = ? AND ${RELATION_VALID_AT}`
+    );
+
+    this.statements.getIncomingRelations = this.db.prepare(
+      `SELECT * FROM relations WHERE to_entity = ? AND ${RELATION_VALID_AT}`
+    );
+
+    this.statements.getOutgoingRelationsByType = this.db.prepare(
+      `SELECT * FROM relations WHERE from_entity = ? AND relation_type = ? AND ${RELATION_VALID_AT}`
+    );
+
+    this.statements.getIncomingRelationsByType = this.db.prepare(
+      `SELECT * FROM relations WHERE to_entity = ? AND relation_type = ? AND ${RELATION_VALID_AT}`
+    );
+
     this.statements.getEntityStats = this.db.prepare(
       'SELECT entity_type, COUNT(*) as count FROM entities GROUP BY entity_type'
     );
   }
   
+  /**
+   * The saved filter is only trusted after a clean close: it is removed once loaded
+   * and written again by close(), so a crash leaves no file and the next start rebuilds it
+   */
   private initializeBloomFilter(): void {
     const bloomPath = this.dbPath.replace('.db', '.cbloom');
     const loadedFilter = CountingBloomFilter.loadFromFileSync(bloomPath);
     
     if (loadedFilter) {
       this.entityBloom = loadedFilter;
+      rmSync(bloomPath, { force: true });
       logInfo('Counting Bloom filter loaded from disk', { path: bloomPath });
     } else {
       this.entityBloom = new CountingBloomFilter(
@@ -185,21 +735,21 @@ export class MemoryDatabase {
         falsePositiveRate: config.bloomFilter.falsePositiveRate 
       });
       this.populateBloomFilter();
-      this.saveBloomFilter();
     }
   }
 
   private populateBloomFilter(): void {
     if (!this.entityBloom) return;
-    const rows = this.db.prepare('SELECT name FROM entities').all() as { name: string }[];
+    const rows = this.db.prepare(
+      'SELECT name FROM entities UNION ALL SELECT alias FROM entity_aliases'
+    ).all() as { name: string }[];
     for (const row of rows) {
       this.entityBloom.add(row.name.toLowerCase());
     }
   }
 
-  private saveBloomFilter(): void {
+  private saveBloomFilter(bloomPath: string = this.dbPath.replace('.db', '.cbloom')): void {
     if (!this.entityBloom) return;
-    const bloomPath = this.dbPath.replace('.db', '.cbloom');
     try {
       this.entityBloom.saveToFileSync(bloomPath);
       logDebug('Counting Bloom filter saved to disk', { path: bloomPath });
@@ -208,167 +758,914 @@ export class MemoryDatabase {
     }
   }
 
+  // Row counts only: the integrity check reads every document, so it is left to maintain_search_index
+  private ensureSearchIndexConsistency(): void {
+    const status = this.checkSearchIndex(false);
+    if (!status.consistent) {
+      logWarn('Search index out of sync with entities, rebuilding', { path: this.dbPath, ...status });
+      this.db.exec(FTS_REBUILD);
+    }
+  }
+
+  // Search index maintenance
+  checkSearchIndex(runIntegrityCheck: boolean = true): SearchIndexStatus {
+    const counts = this.db.prepare(`
+      SELECT
+        (SELECT COUNT(*) FROM entities) as entities,
+        (SELECT COUNT(*) FROM entities_fts_docsize) as indexed,
+        (SELECT COUNT(*) FROM entities e
+          WHERE NOT EXISTS (SELECT 1 FROM entities_fts_docsize d WHERE d.id = e.rowid)) as missing,
+        (SELECT COUNT(*) FROM entities_fts_docsize d
+          WHERE NOT EXISTS (SELECT 1 FROM entities e WHERE e.rowid = d.id)) as orphaned
+    `).get() as { entities: number; indexed: number; missing: number; orphaned: number };
+
+    let integrityOk = true;
+    let integrityError: string | undefined;
+    if (runIntegrityCheck) {
+      try {
+        this.db.exec(FTS_INTEGRITY_CHECK);
+      } catch (error) {
+        integrityOk = false;
+        integrityError = (error as Error).message;
+      }
+    }
+
+    return {
+      ...counts,
+      integrityOk,
+      integrityError,
+      consistent: integrityOk && counts.missing === 0 && counts.orphaned === 0
+    };
+  }
+
+  maintainSearchIndex(action: SearchIndexAction): SearchIndexReport {
+    const perf = new PerformanceTracker('maintainSearchIndex', { action, dbPath: this.dbPath });
+    const before = this.checkSearchIndex();
+
+    if (action === 'rebuild') {
+      this.db.exec(FTS_REBUILD);
+    } else if (action === 'optimize') {
+      this.db.exec(FTS_OPTIMIZE);
+    }
+
+    const after = action === 'check' ? before : this.checkSearchIndex();
+    if (action !== 'check') {
+      this.searchCache.clear();
+    }
+
+    perf.end({ consistent: after.consistent });
+    return { action, before, after };
+  }
+
   // Transaction helpers
   transaction<T>(fn: () => T): T {
     return this.db.transaction(fn)();
   }
 
-  createEntities(entities: CreateEntityInput[]): EntityResult[] {
-    const perf = new PerformanceTracker('createEntities', { count: entities.length });
-    
-    const created = this.transaction(() => {
-      const results: EntityResult[] = [];
-      
-      for (const entity of entities) {
-        const observationsData = this.compressionEnabled 
-          ? CompressionUtils.compressObservations(entity.observations)
-          : stringifyObservations(entity.observations);
-        
-        this.statements.createEntity!.run(entity.name, entity.entityType, observationsData);
-        
-        const result: EntityResult = {
-          type: 'entity',
-          name: entity.name,
-          entityType: entity.entityType,
-          observations: entity.observations
-        };
-        results.push(result);
-        
-        // Update caches
-        this.entityCache.set(entity.name.toLowerCase(), result);
-        this.entityBloom.add(entity.name.toLowerCase());
+  /**
+   * Runs a mutation in a transaction as one undoable operation: every history
+   * entry it appends carries the operation's id. Nested calls join the outer
+   * operation, and operations that change nothing are not kept.
+   */
+  private operation<T>(name: string, write: () => T): T {
+    if (this.currentOperation) return write();
+
+    return this.transaction(() => {
+      const { id } = this.statements.insertOperation!.get(name) as { id: number };
+      this.currentOperation = { id, changes: 0 };
+      try {
+        const result = write();
+        if (this.currentOperation.changes === 0) {
+          this.statements.deleteOperation!.run(id);
+        }
+        return result;
+      } finally {
+        this.currentOperation = null;
       }
-      
-      return results;
     });
+  }
 
-    // Clear search cache as new entities were added
-    this.searchCache.clear();
-    perf.end({ created: created.length });
-    return created;
+  /**
+   * Runs a write to one entity or its observations and re-indexes the entity.
+   * entities_fts is external-content, so a document has to be removed with the
+   * exact text it was indexed with - i.e. before the write changes that text.
+   */
+  private reindexEntity<T>(entityName: string, write: () => T): T {
+    this.statements.ftsRemoveEntity!.run(entityName);
+    const result = write();
+    this.statements.ftsIndexEntity!.run(entityName);
+    return result;
   }
 
-  createRelations(relations: CreateRelationInput[]): RelationResult[] {
-    const created: RelationResult[] = [];
-    
-    this.transaction(() => {
-      for (const relation of relations) {
-        const result = this.statements.createRelation!.run(
-          relation.from, 
-          relation.to, 
-          relation.relationType
-        );
-        
-        if (result.changes > 0) {
-          created.push({
-            type: 'relation',
-            from: relation.from,
-            to: relation.to,
-            relationType: relation.relationType
-          });
-        }
-      }
-    });
-    
-    return created;
+  // Current state of an entity for the change log, read from the tables rather than the cache
+  private captureEntity(name: string): EntityState | null {
+    const row = this.statements.getEntity!.get(name) as EntityRow | undefined;
+    if (!row) return null;
+
+    return this.buildEntityState(
+      row,
+      this.statements.getObservations!.all(row.name) as ObservationRow[],
+      this.statements.getProperties!.all(row.name) as PropertyRow[],
+      this.loadEntityAliases(row.name),
+      this.loadEntityTags(row.name)
+    );
   }
 
-  getEntity(name: string): EntityResult | undefined {
-    const lowerName = name.toLowerCase();
-    
-    // Check cache first
-    const cached = this.entityCache.get(lowerName);
-    if (cached) return cached;
-    
-    // Check bloom filter
-    if (!this.entityBloom.contains(lowerName)) return undefined;
-    
-    // Query database
+  // The entity as captureEntity sees it, with only the ids of its observations
+  private captureEntityFields(name: string): { fields: EntityFields; observationIds: number[] } | null {
     const row = this.statements.getEntity!.get(name) as EntityRow | undefined;
-    if (!row) return undefined;
-    
-    const entity: EntityResult = {
-      type: 'entity',
-      name: row.name,
-      entityType: row.entity_type,
-      observations: this.compressionEnabled 
-        ? CompressionUtils.decompressObservations(row.observations)
-        : parseObservations(row.observations)
+    if (!row) return null;
+
+    return {
+      fields: {
+        name: row.name,
+        entityType: row.entity_type,
+        properties: this.toProperties(this.statements.getProperties!.all(row.name) as PropertyRow[]),
+        aliases: this.loadEntityAliases(row.name),
+        tags: this.loadEntityTags(row.name)
+      },
+      observationIds: this.statements.getObservationIds!.all(row.name) as number[]
     };
-    
-    // Cache the result
-    this.entityCache.set(lowerName, entity);
-    return entity;
   }
 
-  searchNodes(options: SearchOptions): GraphResult {
-    const { query, limit = 20 } = options;
-    const cacheKey = `search:${query}:${limit}`;
-    
-    // Check cache
-    const cached = this.searchCache.get(cacheKey);
-    if (cached) return cached;
-
-    // FTS search first
-    const ftsQuery = query.split(/\s+/)
-      .filter(term => term.length > 0)
-      .map(term => `"${term}"*`)
-      .join(' OR ');
-    
-    let rows = this.statements.searchEntities!.all(ftsQuery, limit) as EntityRow[];
+  private loadEntityAliases(name: string): string[] {
+    return (this.statements.getAliases!.all(name) as { alias: string }[]).map(row => row.alias);
+  }
 
-    // Fallback to LIKE search if no FTS results
-    if (rows.length === 0) {
-      const likePattern = `%${query}%`;
-      rows = this.statements.searchEntitiesLike!.all(
-        likePattern, likePattern, likePattern, limit
-      ) as EntityRow[];
-    }
+  private loadEntityTags(name: string): string[] {
+    return (this.statements.getTags!.all(name) as { tag: string }[]).map(row => row.tag);
+  }
 
-    // Convert rows to entities
-    const entities: EntityResult[] = rows.map(row => ({
-      type: 'entity',
+  // Observations keep their stored form, so logging a change never compresses or decompresses them
+  private buildEntityState(
+    row: Pick<EntityRow, 'name' | 'entity_type'>,
+    observationRows: ObservationRow[],
+    propertyRows: PropertyRow[],
+    aliases: string[] = [],
+    tags: string[] = []
+  ): EntityState {
+    return {
       name: row.name,
       entityType: row.entity_type,
-      observations: this.compressionEnabled 
-        ? CompressionUtils.decompressObservations(row.observations)
-        : parseObservations(row.observations)
-    }));
+      observations: observationRows.map(obs => ({ ...this.toProvenanceInfo(obs), content: obs.content })),
+      properties: this.toProperties(propertyRows),
+      aliases,
+      tags
+    };
+  }
 
-    // Update entity cache
-    entities.forEach(entity => 
-      this.entityCache.set(entity.name.toLowerCase(), entity)
-    );
-    
-    // Get relations for found entities
-    const entityNames = entities.map(e => e.name);
-    const relations = entityNames.length > 0 
-      ? this.getRelationsForEntities(entityNames) 
-      : [];
-    
-    const result = { entities, relations };
-    this.searchCache.set(cacheKey, result);
+  // An entity state as reads return it, with provenance
+  private toEntitySnapshot(state: EntityState): EntityResult {
+    const snapshot: EntityResult = {
+      type: 'entity',
+      name: state.name,
+      entityType: state.entityType,
+      observations: state.observations.map(obs => CompressionUtils.decompressObservation(obs.content)),
+      provenance: state.observations.map(({ content, ...provenance }) => provenance)
+    };
+    if (Object.keys(state.properties).length > 0) {
+      snapshot.properties = state.properties;
+    }
+    if (state.aliases.length > 0) {
+      snapshot.aliases = state.aliases;
+    }
+    if (state.tags.length > 0) {
+      snapshot.tags = state.tags;
+    }
+    return snapshot;
+  }
+
+  private buildSnapshot(
+    row: Pick<EntityRow, 'name' | 'entity_type'>,
+    observationRows: ObservationRow[],
+    propertyRows: PropertyRow[],
+    aliases: string[] = [],
+    tags: string[] = []
+  ): EntityResult {
+    return this.toEntitySnapshot(this.buildEntityState(row, observationRows, propertyRows, aliases, tags));
+  }
+
+  // Entries written before schema version 16 hold snapshots as reads return them
+  private parseEntityState(json: string): EntityState {
+    const stored = JSON.parse(json) as EntityState | EntityResult;
+    if (!('type' in stored)) return stored;
+    return {
+      name: stored.name,
+      entityType: stored.entityType,
+      observations: stored.observations.map((content, index) => ({ ...stored.provenance![index], content })),
+      properties: stored.properties ?? {},
+      aliases: stored.aliases ?? [],
+      tags: stored.tags ?? []
+    };
+  }
+
+  private appendHistory(
+    operation: HistoryOperation,
+    entityName: string,
+    before: HistorySnapshot | EntityState | null,
+    after: HistorySnapshot | EntityState | null,
+    delta: EntityDelta | null = null,
+    relation?: { id: number; to: string }
+  ): void {
+    this.statements.insertHistory!.run(
+      entityName,
+      relation?.to ?? null,
+      relation?.id ?? null,
+      operation,
+      before ? JSON.stringify(before) : null,
+      after ? JSON.stringify(after) : null,
+      delta ? JSON.stringify(delta) : null,
+      this.currentOperation?.id ?? null
+    );
+    if (this.currentOperation) this.currentOperation.changes++;
+  }
+
+  /**
+   * Runs a write to one entity and logs what it changed; writes that leave the
+   * entity unchanged are not logged. Observations are only compared by id, so a
+   * write that edits one in place names it through editedObservations.
+   */
+  private recordEntityChange<T>(
+    operation: HistoryOperation,
+    entityName: string,
+    write: () => T,
+    editedObservations: (result: T) => number[] = () => []
+  ): T {
+    const chainLength = this.historyChain(entityName).length;
+    if (chainLength === 0) {
+      // The entity's first entry holds its whole state from before the write
+      const before = this.captureEntity(entityName);
+      const result = write();
+      this.logEntityChange(operation, before, this.captureEntity(entityName));
+      return result;
+    }
+
+    const before = this.captureEntityFields(entityName);
+    const result = write();
+    const after = this.captureEntityFields(entityName);
+    if (!before || !after) return result;
+
+    const beforeIds = new Set(before.observationIds);
+    const afterIds = new Set(after.observationIds);
+    const edited = new Set(editedObservations(result));
+    const removed = before.observationIds.filter(id => !afterIds.has(id) || edited.has(id));
+    const added = after.observationIds.filter(id => !beforeIds.has(id) || edited.has(id));
+
+    const delta = diffEntityFields(before.fields, after.fields);
+    if (removed.length > 0) delta.observationsRemoved = removed;
+    if (added.length > 0) {
+      delta.observationsAdded = (this.statements.getObservationsById!.all(JSON.stringify(added)) as ObservationRow[])
+        .map(row => ({ ...this.toProvenanceInfo(row), content: row.content }));
+    }
+    if (Object.keys(delta).length > 0) {
+      this.logEntityDelta(operation, after.fields.name, chainLength, delta);
+    }
     return result;
   }
 
-  readGraph(limit?: number, offset: number = 0): GraphResult {
-    const totalEntities = (this.db.prepare('SELECT COUNT(*) as count FROM entities').get() as any).count;
-    const totalRelations = (this.db.prepare('SELECT COUNT(*) as count FROM relations').get() as any).count;
+  /**
+   * Logs a change to one entity that was captured whole. Unchanged entities are
+   * not logged. The whole entity is stored where no earlier entry can rebuild
+   * it: when it appears, and when it is first logged after being created before
+   * the log was.
+   */
+  private logEntityChange(
+    operation: HistoryOperation,
+    before: EntityState | null,
+    after: EntityState | null
+  ): void {
+    if (sameEntityState(before, after)) return;
+    const name = (after ?? before)!.name;
+    if (before === null) {
+      this.appendHistory(operation, name, null, after);
+      return;
+    }
+
+    const chainLength = this.historyChain(name).length;
+    if (chainLength === 0) {
+      this.appendHistory(operation, name, before, null, after && diffEntityStates(before, after));
+    } else if (after === null) {
+      this.appendHistory(operation, name, null, null);
+    } else {
+      this.logEntityDelta(operation, name, chainLength, diffEntityStates(before, after)!);
+    }
+  }
+
+  /**
+   * Logs the delta of a change, or the whole entity as it now is once the
+   * entries since the last whole one reach HISTORY_CHECKPOINT_INTERVAL
+   */
+  private logEntityDelta(operation: HistoryOperation, name: string, chainLength: number, delta: EntityDelta): void {
+    if (chainLength >= MemoryDatabase.HISTORY_CHECKPOINT_INTERVAL) {
+      this.appendHistory(operation, name, null, this.captureEntity(name));
+    } else {
+      this.appendHistory(operation, name, null, null, delta);
+    }
+  }
+
+  /**
+   * Entity entries up to an id that a replay needs, newest first: back to the
+   * latest one that holds the whole entity or leaves it gone
+   */
+  private historyChain(entityName: string, upToId: number = Number.MAX_SAFE_INTEGER): HistoryRow[] {
+    const rows: HistoryRow[] = [];
+    for (const row of this.statements.getEntityHistoryChain!.iterate(entityName, upToId) as IterableIterator<HistoryRow>) {
+      rows.push(row);
+      if (row.delta === null || row.before !== null || row.after !== null) break;
+    }
+    return rows;
+  }
+
+  // State of an entity after its latest entry up to an id; null when it did not exist
+  private entityStateAt(entityName: string, historyId: number): EntityState | null {
+    let state: EntityState | null = null;
+    for (const row of this.historyChain(entityName, historyId).reverse()) {
+      state = this.applyHistoryEntry(state, row);
+    }
+    return state;
+  }
+
+  private entityStateBefore(row: HistoryRow): EntityState | null {
+    return row.before !== null
+      ? this.parseEntityState(row.before)
+      : this.entityStateAt(row.entity_name, row.id - 1);
+  }
+
+  // The state an entity entry leads to from the state before it
+  private applyHistoryEntry(state: EntityState | null, row: HistoryRow): EntityState | null {
+    if (row.after !== null) return this.parseEntityState(row.after);
+    if (row.delta === null) return null;
+    const before = row.before !== null ? this.parseEntityState(row.before) : state;
+    return before && applyEntityDelta(before, JSON.parse(row.delta) as EntityDelta);
+  }
+
+  private recordRelationChange(
+    operation: HistoryOperation,
+    before: RelationRow | null,
+    after: RelationRow | null
+  ): void {
+    const row = (after ?? before)!;
+    this.appendHistory(
+      operation,
+      row.from_entity,
+      before ? this.toRelationResult(before) : null,
+      after ? this.toRelationResult(after) : null,
+      null,
+      { id: row.id, to: row.to_entity }
+    );
+  }
+
+  private encodeObservation(content: string): string {
+    return this.compressionEnabled ? CompressionUtils.compressObservation(content) : content;
+  }
+
+  private toProvenanceInfo(row: ObservationRow): ObservationProvenanceInfo {
+    return {
+      id: row.id,
+      createdAt: julianToIso(row.created_at),
+      source: row.source ?? undefined,
+      sessionId: row.session_id ?? undefined,
+      agent: row.agent ?? undefined,
+      confidence: row.confidence ?? undefined
+    };
+  }
+
+  private toObservationRecord(row: ObservationRow): ObservationRecord {
+    const { id, ...provenance } = this.toProvenanceInfo(row);
+    return {
+      id,
+      entityName: row.entity_name,
+      content: CompressionUtils.decompressObservation(row.content),
+      ...provenance
+    };
+  }
+
+  private storeObservation(
+    entityName: string,
+    storedContent: string,
+    provenance: ObservationProvenance
+  ): ObservationRow {
+    return this.statements.insertObservation!.get(
+      entityName,
+      storedContent,
+      provenance.source ?? null,
+      provenance.sessionId ?? null,
+      provenance.agent ?? null,
+      provenance.confidence ?? null
+    ) as ObservationRow;
+  }
+
+  // Rows whose text is kept retain their ids; returns contents in stored order
+  private replaceObservations(
+    entityName: string,
+    contents: string[],
+    provenance: ObservationProvenance
+  ): string[] {
+    const wanted = new Set(contents);
+    const retained = new Set<string>();
+
+    for (const row of this.statements.getObservations!.all(entityName) as ObservationRow[]) {
+      const content = CompressionUtils.decompressObservation(row.content);
+      if (wanted.has(content) && !retained.has(content)) {
+        retained.add(content);
+      } else {
+        this.statements.deleteObservation!.run(entityName, row.id);
+      }
+    }
+
+    for (const content of wanted) {
+      if (retained.has(content)) continue;
+      this.storeObservation(entityName, this.encodeObservation(content), provenance);
+      retained.add(content);
+    }
+
+    return Array.from(retained);
+  }
+
+  // Appends contents the entity does not already hold
+  private insertObservations(
+    entityName: string,
+    contents: string[],
+    provenance: ObservationProvenance
+  ): ObservationRecord[] {
+    const inserted: ObservationRecord[] = [];
+
+    for (const content of new Set(contents)) {
+      const compressed = CompressionUtils.compressObservation(content);
+      if (this.statements.findObservations!.get(entityName, content, compressed)) continue;
+
+      const row = this.storeObservation(entityName, this.compressionEnabled ? compressed : content, provenance);
+      inserted.push(this.toObservationRecord(row));
+    }
+
+    return inserted;
+  }
+
+  getOntology(): Ontology | null {
+    return this.ontology?.ontology ?? null;
+  }
+
+  /**
+   * Replaces the context's ontology (null removes it). It applies to later writes
+   * only; entities and relations already stored are left as they are.
+   */
+  setOntology(ontology: Ontology | null): void {
+    if (ontology === null) {
+      this.db.prepare('DELETE FROM ontology').run();
+      this.ontology = null;
+      return;
+    }
+
+    // Compiling validates the definition before it is stored
+    const validator = new OntologyValidator(ontology);
+    this.db.prepare(`
+      INSERT INTO ontology (id, definition) VALUES (1, ?)
+      ON CONFLICT(id) DO UPDATE SET definition = excluded.definition, updated_at = julianday('now')
+    `).run(JSON.stringify(ontology));
+    this.ontology = validator;
+  }
+
+  private logOntologyWarnings(warnings: string[]): void {
+    if (warnings.length > 0) {
+      logWarn('Ontology violations accepted in lenient mode', { path: this.dbPath, warnings });
+    }
+  }
+
+  createEntities(entities: CreateEntityInput[]): EntityResult[] {
+    const perf = new PerformanceTracker('createEntities', { count: entities.length });
     
-    const entityQuery = limit 
-      ? `SELECT * FROM entities ORDER BY updated_at DESC LIMIT ${limit} OFFSET ${offset}`
-      : 'SELECT * FROM entities ORDER BY updated_at DESC';
+    // Types are normalized up front, so a strict ontology rejects the batch before anything is written
+    const warnings: string[][] = entities.map(() => []);
+    const inputs = this.ontology
+      ? entities.map((entity, index) => ({
+          ...entity,
+          entityType: this.ontology!.checkEntity(entity.name, entity.entityType, warnings[index])
+        }))
+      : entities;
+    
+    const created = this.operation('create_entities', () => {
+      const results: EntityResult[] = [];
+      
+      for (const [index, entity] of inputs.entries()) {
+        const lowerName = entity.name.toLowerCase();
+        let stored: EntityResult;
+        
+        // Existence is decided by the table, not the bloom filter: a filter saved
+        // before a crash can miss names that were written after it
+        if (this.statements.getEntity!.get(entity.name)) {
+          const before = this.captureEntity(entity.name);
+          this.reindexEntity(entity.name, () => {
+            this.statements.createEntity!.get(entity.name, entity.entityType);
+            this.replaceObservations(entity.name, entity.observations, entity);
+            for (const tag of entity.tags ?? []) {
+              this.statements.addTag!.run(entity.name, tag);
+            }
+          });
+          const after = this.captureEntity(entity.name)!;
+          this.logEntityChange(before ? 'update' : 'create', before, after);
+          stored = this.toEntitySnapshot(after);
+        } else {
+          this.assertNotAlias(entity.name);
+          // A new entity has no other rows yet, so its snapshot is built from the values in hand
+          let observationRows: ObservationRow[] = [];
+          this.reindexEntity(entity.name, () => {
+            this.statements.createEntity!.get(entity.name, entity.entityType);
+            observationRows = Array.from(new Set(entity.observations)).map(content =>
+              this.storeObservation(entity.name, this.encodeObservation(content), entity)
+            );
+            for (const tag of entity.tags ?? []) {
+              this.statements.addTag!.run(entity.name, tag);
+            }
+          });
+          const state = this.buildEntityState(
+            { name: entity.name, entity_type: entity.entityType },
+            observationRows,
+            [],
+            [],
+            entity.tags ? this.loadEntityTags(entity.name) : []
+          );
+          this.logEntityChange('create', null, state);
+          stored = this.toEntitySnapshot(state);
+        }
+        
+        const result: EntityResult = {
+          type: 'entity',
+          name: entity.name,
+          entityType: entity.entityType,
+          observations: stored.observations
+        };
+        if (stored.properties) result.properties = stored.properties;
+        if (stored.aliases) result.aliases = stored.aliases;
+        if (stored.tags) result.tags = stored.tags;
+        results.push(warnings[index].length > 0 ? { ...result, warnings: warnings[index] } : result);
+        
+        // Update caches
+        this.entityCache.set(lowerName, result);
+        this.entityBloom.add(lowerName);
+      }
+      
+      return results;
+    });
+
+    // Clear search cache as new entities were added
+    this.searchCache.clear();
+    this.logOntologyWarnings(warnings.flat());
+    perf.end({ created: created.length });
+    return created;
+  }
+
+  /**
+   * Returns the relations that were written: new ones, plus existing ones
+   * that were reinforced when onConflict is 'reinforce'
+   */
+  createRelations(
+    relations: CreateRelationInput[],
+    onConflict: RelationConflictMode = 'ignore'
+  ): RelationResult[] {
+    const created: RelationResult[] = [];
+    const statement = onConflict === 'reinforce'
+      ? this.statements.reinforceRelation!
+      : this.statements.createRelation!;
+    
+    const aliases = this.resolveAliases(relations.flatMap(relation => [relation.from, relation.to]));
+    const allWarnings: string[] = [];
+    
+    this.operation('create_relations', () => {
+      for (const relation of relations) {
+        const fromAlias = aliases.get(relation.from.toLowerCase());
+        const toAlias = aliases.get(relation.to.toLowerCase());
+        const from = fromAlias?.entity_name ?? relation.from;
+        const to = toAlias?.entity_name ?? relation.to;
+        const validFrom = relation.validFrom === undefined ? null : isoToJulian(relation.validFrom, 'validFrom');
+        const validTo = relation.validTo === undefined ? null : isoToJulian(relation.validTo, 'validTo');
+        if (validFrom !== null && validTo !== null && validTo <= validFrom) {
+          throw new InvalidInputError('validTo', relation.validTo, `a date after validFrom (${relation.validFrom})`);
+        }
+        const warnings: string[] = [];
+        if (this.ontology) {
+          const fromRow = this.statements.getEntity!.get(from) as EntityRow | undefined;
+          const toRow = this.statements.getEntity!.get(to) as EntityRow | undefined;
+          this.ontology.checkRelation(relation, fromRow?.entity_type, toRow?.entity_type, warnings);
+          allWarnings.push(...warnings);
+        }
+
+        const before = onConflict === 'reinforce'
+          ? this.statements.getOpenRelation!.get(from, to, relation.relationType) as RelationRow | undefined
+          : undefined;
+        const row = statement.get(
+          from, 
+          to, 
+          relation.relationType,
+          relation.weight ?? null,
+          relation.confidence ?? null,
+          relation.metadata ? JSON.stringify(relation.metadata) : null,
+          validFrom,
+          validTo
+        ) as RelationRow | undefined;
+        
+        if (row) {
+          // A bounded relation is inserted alongside an open one rather than reinforcing it
+          const reinforced = before !== undefined && before.id === row.id;
+          this.recordRelationChange(
+            reinforced ? 'update_relation' : 'create_relation',
+            reinforced ? before : null,
+            row
+          );
+          const result = this.toRelationResult(row);
+          if (fromAlias || toAlias) {
+            result.matchedAliases = {};
+            if (fromAlias) result.matchedAliases.from = fromAlias.alias;
+            if (toAlias) result.matchedAliases.to = toAlias.alias;
+          }
+          if (warnings.length > 0) result.warnings = warnings;
+          created.push(result);
+        }
+      }
+    });
+    
+    // Cached search results carry relations
+    if (created.length > 0) this.searchCache.clear();
+    this.logOntologyWarnings(allWarnings);
+    return created;
+  }
+
+  private toRelationResult(row: RelationRow): RelationResult {
+    const relation: RelationResult = {
+      type: 'relation',
+      from: row.from_entity,
+      to: row.to_entity,
+      relationType: row.relation_type,
+      count: row.count
+    };
+    if (row.weight !== null) relation.weight = row.weight;
+    if (row.confidence !== null) relation.confidence = row.confidence;
+    if (row.metadata !== null) relation.metadata = JSON.parse(row.metadata);
+    if (row.valid_from !== null) relation.validFrom = julianToIso(row.valid_from);
+    if (row.valid_to !== null) relation.validTo = julianToIso(row.valid_to);
+    return relation;
+  }
+
+  /**
+   * Ends open relations at closure.validTo (default: now), keeping them as history.
+   * Returns the closed relations; relations that are not open, or that only
+   * start after validTo, are skipped.
+   */
+  closeRelations(closures: RelationClosure[]): RelationResult[] {
+    const closed = this.operation('close_relations', () => {
+      const rows: RelationRow[] = [];
+      for (const closure of closures) {
+        const validTo = isoToJulian(closure.validTo, 'validTo');
+        const row = this.statements.closeRelation!.get(
+          validTo,
+          closure.from,
+          closure.to,
+          closure.relationType,
+          validTo
+        ) as RelationRow | undefined;
+        if (row) {
+          this.recordRelationChange('close_relation', { ...row, valid_to: null }, row);
+          rows.push(row);
+        }
+      }
+      return rows;
+    });
+
+    // Cached search results carry relations
+    if (closed.length > 0) this.searchCache.clear();
+    return closed.map(row => this.toRelationResult(row));
+  }
+
+  getEntity(name: string): EntityResult | undefined {
+    const lowerName = name.toLowerCase();
+    
+    // Check cache first
+    const cached = this.entityCache.get(lowerName);
+    if (cached) return cached;
+    
+    // Check bloom filter
+    if (!this.entityBloom.contains(lowerName)) return undefined;
     
-    const entityRows = this.db.prepare(entityQuery).all() as EntityRow[];
+    // Query database
+    const row = this.statements.getEntity!.get(name) as EntityRow | undefined;
+    if (!row) {
+      // Aliases resolve to their entity, which is cached under its own name
+      const alias = this.statements.getAlias!.get(name) as AliasRow | undefined;
+      const entity = alias ? this.getEntity(alias.entity_name) : undefined;
+      return entity && { ...entity, matchedAlias: alias!.alias };
+    }
     
-    const entities: EntityResult[] = entityRows.map(row => ({
+    const observationRows = this.statements.getObservations!.all(row.name) as ObservationRow[];
+    const entity: EntityResult = {
       type: 'entity',
       name: row.name,
       entityType: row.entity_type,
-      observations: this.compressionEnabled 
-        ? CompressionUtils.decompressObservations(row.observations)
-        : parseObservations(row.observations)
-    }));
+      observations: observationRows.map(obs => CompressionUtils.decompressObservation(obs.content))
+    };
+    const propertyRows = this.statements.getProperties!.all(row.name) as PropertyRow[];
+    if (propertyRows.length > 0) {
+      entity.properties = this.toProperties(propertyRows);
+    }
+    const aliases = this.loadEntityAliases(row.name);
+    if (aliases.length > 0) entity.aliases = aliases;
+    const tags = this.loadEntityTags(row.name);
+    if (tags.length > 0) entity.tags = tags;
+    
+    // Cache the result
+    this.entityCache.set(lowerName, entity);
+    return entity;
+  }
+
+  searchNodes(options: SearchOptions): GraphResult {
+    const { query, queryMode = 'simple', limit = 20, offset = 0, propertyFilters = [], tags = [], tagMode = 'all' } = options;
+    if (options.asOf !== undefined) {
+      // Past states are scanned rather than searched through the index, and the
+      // dates and relations of entities are only known as they are now
+      if (queryMode === 'advanced') {
+        throw new InvalidInputError('queryMode', queryMode, 'the simple query mode together with asOf');
+      }
+      if (options.resultMode === 'matches') {
+        throw new InvalidInputError('resultMode', options.resultMode, 'full results together with asOf');
+      }
+      if (this.searchFilterClause({ ...options, entityTypes: undefined }).sql) {
+        throw new InvalidInputError('asOf', options.asOf, 'no date or relation filter together with asOf');
+      }
+      return this.searchNodesAsOf(query, limit, offset, options);
+    }
+
+    const filters = [
+      this.propertyFilterClause(propertyFilters),
+      this.tagFilterClause(tags, tagMode),
+      this.searchFilterClause(options)
+    ].filter(clause => clause.sql);
+    const filter = {
+      sql: filters.map(clause => clause.sql).join(' AND '),
+      params: filters.flatMap(clause => clause.params)
+    };
+    const conditions = filter.sql ? ` AND ${filter.sql}` : '';
+
+    const weights = { ...DEFAULT_SEARCH_WEIGHTS, ...options.weights };
+    const weightParams = [weights.name, weights.entityType, weights.observations, weights.aliases];
+
+    // Filtered searches get their own keys; undefined filters drop out of the JSON
+    const keyPrefix = `${queryMode === 'advanced' ? 'search-advanced' : 'search'}:${weightParams.join(',')}`;
+    const cacheKey = filter.sql
+      ? `${keyPrefix}:${query}:${limit}:${offset}:${JSON.stringify({
+          propertyFilters,
+          tags,
+          tagMode,
+          entityTypes: options.entityTypes,
+          createdAfter: options.createdAfter,
+          createdBefore: options.createdBefore,
+          updatedAfter: options.updatedAfter,
+          updatedBefore: options.updatedBefore,
+          minRelations: options.minRelations,
+          hasRelationType: options.hasRelationType
+        })}`
+      : `${keyPrefix}:${query}:${limit}:${offset}`;
+    
+    // Check cache
+    const cached = this.searchCache.get(cacheKey);
+    if (cached) return this.searchResult(cached, options);
+
+    // FTS search first
+    const ftsQuery = toFtsQuery(query, queryMode);
+    
+    let total: number;
+    let rows: (EntityRow & { rowid?: number; score?: number })[] = [];
+    try {
+      total = ((filter.sql
+        ? this.db.prepare(ftsCountSql(conditions)).get(ftsQuery, ...filter.params)
+        : this.statements.countSearchEntities!.get(ftsQuery)) as { count: number }).count;
+      if (total > 0) {
+        rows = (filter.sql
+          ? this.db.prepare(ftsSearchSql(conditions)).all(...weightParams, ftsQuery, ...filter.params, limit, offset)
+          : this.statements.searchEntities!.all(...weightParams, ftsQuery, limit, offset)) as EntityRow[];
+      }
+    } catch (error) {
+      // The statement is fixed, so an SQL error here comes from the query expression
+      if (queryMode === 'advanced' && error instanceof Database.SqliteError && error.code === 'SQLITE_ERROR') {
+        throw new InvalidInputError('query', query, `a valid FTS5 query (${error.message})`);
+      }
+      throw error;
+    }
+
+    // Fallback to LIKE search if no FTS results; advanced queries are not plain text.
+    // Decided on the total rather than the page, so every page of a search uses the same ranking.
+    const fromFts = total > 0;
+    if (!fromFts && queryMode === 'simple') {
+      const likeParams = Array(4).fill(`%${query}%`);
+      total = ((filter.sql
+        ? this.db.prepare(likeCountSql(conditions)).get(...likeParams, ...filter.params)
+        : this.statements.countSearchEntitiesLike!.get(...likeParams)) as { count: number }).count;
+      rows = (filter.sql
+        ? this.db.prepare(likeSearchSql(conditions)).all(...likeParams, ...filter.params, limit, offset)
+        : this.statements.searchEntitiesLike!.all(...likeParams, limit, offset)) as EntityRow[];
+    }
+
+    // Convert rows to entities
+    const entities = this.toEntityResults(rows);
+
+    // Update entity cache
+    entities.forEach(entity => 
+      this.entityCache.set(entity.name.toLowerCase(), entity)
+    );
+    
+    // Get relations for found entities
+    const entityNames = entities.map(e => e.name);
+    const relations = entityNames.length > 0 
+      ? this.getRelationsForEntities(entityNames) 
+      : [];
+    
+    const matches = fromFts
+      ? this.ftsMatches(ftsQuery, rows, entities)
+      : entities.map(entity => substringMatch(entity, query));
+    const result = {
+      entities: entities.map((entity, i) => ({ ...entity, match: matches[i] })),
+      relations,
+      page: { total, limit, hasMore: offset + entities.length < total }
+    };
+    this.searchCache.set(cacheKey, result);
+    return this.searchResult(result, options);
+  }
+
+  /**
+   * Document frequency of a search query: how many entities the index holds and
+   * how many of them the query matches, before any filters. This is what bm25's
+   * IDF is computed from, so it lets scores from different databases be rescaled.
+   */
+  searchFrequency(query: string, queryMode: SearchQueryMode = 'simple'): { documents: number; matching: number } {
+    const documents = (this.db.prepare('SELECT COUNT(*) as count FROM entities').get() as any).count;
+    const matching = (this.statements.countSearchEntities!.get(toFtsQuery(query, queryMode)) as any).count;
+    return { documents, matching };
+  }
+
+  // Shapes a (possibly cached) search result for the caller without touching the cached copy
+  private searchResult(result: GraphResult, options: SearchOptions): GraphResult {
+    const graph = options.includeProvenance ? this.withProvenance(result) : result;
+    return options.resultMode === 'matches'
+      ? { ...graph, entities: graph.entities.map(onlyMatchedObservations) }
+      : graph;
+  }
+
+  // Highlights and snippets for FTS hits, computed only for the rows being returned
+  private ftsMatches(
+    ftsQuery: string,
+    rows: { rowid?: number; score?: number }[],
+    entities: EntityResult[]
+  ): SearchMatch[] {
+    const marked = new Map<number, { observations: string | null; snippet: string }>();
+    const rowids = rows.map(row => row.rowid!);
+
+    for (let i = 0; i < rowids.length; i += MemoryDatabase.IN_CLAUSE_CHUNK) {
+      const chunk = rowids.slice(i, i + MemoryDatabase.IN_CLAUSE_CHUNK);
+      const placeholders = chunk.map(() => '?').join(',');
+      const markedRows = this.db.prepare(`
+        SELECT rowid,
+          highlight(entities_fts, 2, ?, ?) AS observations,
+          snippet(entities_fts, -1, ?, ?, '…', 16) AS snippet
+        FROM entities_fts WHERE entities_fts MATCH ? AND rowid IN (${placeholders})
+      `).all(MATCH_START, MATCH_END, MATCH_START, MATCH_END, ftsQuery, ...chunk) as
+        { rowid: number; observations: string | null; snippet: string }[];
+
+      for (const row of markedRows) {
+        marked.set(row.rowid, row);
+      }
+    }
+
+    return entities.map((entity, i) => {
+      const row = marked.get(rowids[i]);
+      return ftsMatch(entity, rows[i].score!, row?.observations ?? null, row?.snippet ?? entity.name);
+    });
+  }
+
+  readGraph(
+    limit?: number,
+    offset: number = 0,
+    propertyFilters: PropertyFilter[] = [],
+    asOf?: string
+  ): GraphResult {
+    if (asOf !== undefined) {
+      return this.readGraphAsOf(limit, offset, propertyFilters, asOf);
+    }
+
+    const filter = this.propertyFilterClause(propertyFilters);
+    const where = filter.sql ? `WHERE ${filter.sql}` : '';
+    const validAt = isoToJulian(undefined, 'asOf');
+    
+    const totalEntities = (this.db.prepare(
+      `SELECT COUNT(*) as count FROM entities e ${where}`
+    ).get(...filter.params) as any).count;
+    const totalRelations = (this.db.prepare(
+      `SELECT COUNT(*) as count FROM relations WHERE ${RELATION_VALID_AT}`
+    ).get(validAt, validAt) as any).count;
+    
+    const entityQuery = limit 
+      ? `SELECT * FROM entities e ${where} ORDER BY updated_at DESC LIMIT ${limit} OFFSET ${offset}`
+      : `SELECT * FROM entities e ${where} ORDER BY updated_at DESC`;
+    
+    const entityRows = this.db.prepare(entityQuery).all(...filter.params) as EntityRow[];
+    
+    const entities = this.toEntityResults(entityRows);
     
     const relations = entities.length > 0 
       ? this.getRelationsForEntities(entities.map(e => e.name)) 
@@ -378,142 +1675,1246 @@ export class MemoryDatabase {
       entities, 
       relations,
       pagination: limit ? {
-        totalEntities,
-        totalRelations,
+        totalEntities,
+        totalRelations,
+        offset,
+        limit,
+        hasMore: offset + entities.length < totalEntities
+      } : undefined
+    };
+  }
+
+  /**
+   * Relations touching any of the entities that hold now, or - with asOf -
+   * the relations recorded at that time that held then
+   */
+  getRelationsForEntities(entityNames: string[], asOf?: string): RelationResult[] {
+    if (entityNames.length === 0) return [];
+    if (asOf !== undefined) {
+      return this.relationsAsOf(isoToJulian(asOf, 'asOf'), entityNames);
+    }
+    const validAt = isoToJulian(undefined, 'asOf');
+
+    // Use temporary table for large queries
+    if (entityNames.length > this.relationQueryThreshold) {
+      return this.transaction(() => {
+        // Create temp table
+        this.db.exec('CREATE TEMP TABLE IF NOT EXISTS temp_entities (name TEXT PRIMARY KEY)');
+        
+        const insertStmt = this.db.prepare('INSERT OR IGNORE INTO temp_entities VALUES (?)');
+        for (const name of entityNames) {
+          insertStmt.run(name);
+        }
+        
+        // Query using temp table
+        const rows = this.db.prepare(`
+          SELECT DISTINCT r.* FROM relations r
+          WHERE (r.from_entity IN (SELECT name FROM temp_entities)
+             OR r.to_entity IN (SELECT name FROM temp_entities))
+            AND ${RELATION_VALID_AT}
+        `).all(validAt, validAt) as RelationRow[];
+        
+        // Clean up
+        this.db.exec('DROP TABLE temp_entities');
+        
+        return rows.map(row => this.toRelationResult(row));
+      });
+    }
+
+    // Use IN clause for small queries
+    const placeholders = entityNames.map(() => '?').join(',');
+    const rows = this.db.prepare(`
+      SELECT * FROM relations 
+      WHERE (from_entity IN (${placeholders}) 
+         OR to_entity IN (${placeholders}))
+        AND ${RELATION_VALID_AT}
+    `).all(...entityNames, ...entityNames, validAt, validAt) as RelationRow[];
+    
+    return rows.map(row => this.toRelationResult(row));
+  }
+
+  addObservations(updates: ObservationUpdate[]): ObservationRecord[] {
+    if (updates.length === 0) return [];
+
+    const aliases = this.resolveAliases(updates.map(update => update.entityName));
+
+    const added = this.operation('add_observations', () => {
+      const records: ObservationRecord[] = [];
+
+      for (const update of updates) {
+        const alias = aliases.get(update.entityName.toLowerCase());
+        const entityName = alias?.entity_name ?? update.entityName;
+        if (!this.statements.getEntity!.get(entityName)) continue;
+
+        const inserted = this.recordEntityChange('add_observations', entityName, () =>
+          this.reindexEntity(entityName, () =>
+            this.insertObservations(entityName, update.contents, update)
+          )
+        );
+        if (inserted.length > 0) {
+          this.statements.touchEntity!.run(entityName);
+          this.entityCache.delete(entityName.toLowerCase());
+          records.push(...(alias ? inserted.map(record => ({ ...record, matchedAlias: alias.alias })) : inserted));
+        }
+      }
+
+      return records;
+    });
+    
+    this.searchCache.clear();
+    return added;
+  }
+
+  getObservations(entityName: string): ObservationRecord[] {
+    const entity = this.statements.getEntity!.get(entityName) as EntityRow | undefined;
+    if (!entity) throw new EntityNotFoundError(entityName);
+
+    return (this.statements.getObservations!.all(entity.name) as ObservationRow[])
+      .map(row => this.toObservationRecord(row));
+  }
+
+  private selectObservations(filter: ObservationFilter): ObservationRow[] {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (filter.entityName !== undefined) {
+      conditions.push('entity_name = ?');
+      params.push(filter.entityName);
+    }
+    if (filter.source !== undefined) {
+      conditions.push('source = ?');
+      params.push(filter.source);
+    }
+    if (filter.sessionId !== undefined) {
+      conditions.push('session_id = ?');
+      params.push(filter.sessionId);
+    }
+    if (filter.agent !== undefined) {
+      conditions.push('agent = ?');
+      params.push(filter.agent);
+    }
+    if (filter.minConfidence !== undefined) {
+      conditions.push('confidence >= ?');
+      params.push(filter.minConfidence);
+    }
+    if (filter.maxConfidence !== undefined) {
+      conditions.push('confidence <= ?');
+      params.push(filter.maxConfidence);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = filter.limit !== undefined ? 'LIMIT ?' : '';
+    if (filter.limit !== undefined) params.push(filter.limit);
+
+    return this.db.prepare(
+      `SELECT * FROM observations ${where} ORDER BY id ${limit}`
+    ).all(...params) as ObservationRow[];
+  }
+
+  /**
+   * Change log of an entity, newest first, optionally with the changes to relations
+   * on either end. Entries outlive the entity, so deleted entities keep their history.
+   */
+  getEntityHistory(entityName: string, options: HistoryOptions = {}): HistoryEntry[] {
+    const { includeRelations = true, limit = -1 } = options;
+
+    const rows = (includeRelations
+      ? this.db.prepare(`
+          SELECT * FROM entity_history WHERE entity_name = ? OR related_entity = ?
+          ORDER BY id DESC LIMIT ?
+        `).all(entityName, entityName, limit)
+      : this.db.prepare(`
+          SELECT * FROM entity_history WHERE entity_name = ? AND relation_id IS NULL
+          ORDER BY id DESC LIMIT ?
+        `).all(entityName, limit)) as HistoryRow[];
+
+    // The entity entries are the latest of its chain, so one replay forward from
+    // the state before the oldest of them rebuilds every snapshot
+    const entityRows = rows.filter(row => row.relation_id === null).reverse();
+    const states = new Map<number, [EntityState | null, EntityState | null]>();
+    let state = entityRows.length > 0 ? this.entityStateAt(entityName, entityRows[0].id - 1) : null;
+    for (const row of entityRows) {
+      const before = row.before !== null ? this.parseEntityState(row.before) : state;
+      state = this.applyHistoryEntry(before, row);
+      states.set(row.id, [before, state]);
+    }
+
+    return rows.map(row => {
+      const entityStates = states.get(row.id);
+      return {
+        id: row.id,
+        entityName: row.entity_name,
+        operation: row.operation,
+        before: entityStates
+          ? entityStates[0] && this.toEntitySnapshot(entityStates[0])
+          : row.before === null ? null : JSON.parse(row.before),
+        after: entityStates
+          ? entityStates[1] && this.toEntitySnapshot(entityStates[1])
+          : row.after === null ? null : JSON.parse(row.after),
+        changedAt: julianToIso(row.created_at)
+      };
+    });
+  }
+
+  findObservations(filter: ObservationFilter): ObservationRecord[] {
+    return this.selectObservations(filter).map(row => this.toObservationRecord(row));
+  }
+
+  // Removes every observation matching the provenance filter, e.g. all writes of one session
+  deleteObservationsByProvenance(filter: ObservationFilter): number {
+    const perf = new PerformanceTracker('deleteObservationsByProvenance', { ...filter });
+
+    const deleted = this.operation('delete_observations_by_provenance', () => {
+      const idsByEntity = new Map<string, number[]>();
+      for (const row of this.selectObservations(filter)) {
+        const key = row.entity_name.toLowerCase();
+        if (!idsByEntity.has(key)) idsByEntity.set(key, []);
+        idsByEntity.get(key)!.push(row.id);
+      }
+
+      let count = 0;
+      for (const [entityName, ids] of idsByEntity) {
+        this.recordEntityChange('delete_observations', entityName, () =>
+          this.reindexEntity(entityName, () => {
+            for (const id of ids) {
+              count += this.statements.deleteObservation!.run(entityName, id).changes;
+            }
+          })
+        );
+        this.statements.touchEntity!.run(entityName);
+        this.entityCache.delete(entityName);
+      }
+      return count;
+    });
+
+    this.searchCache.clear();
+    perf.end({ deleted });
+    return deleted;
+  }
+
+  updateObservations(edits: ObservationEdit[]): ObservationRecord[] {
+    if (edits.length === 0) return [];
+
+    const aliases = this.resolveAliases(edits.map(edit => edit.entityName));
+
+    const updated = this.operation('update_observations', () => {
+      const records: ObservationRecord[] = [];
+
+      for (const edit of edits) {
+        const alias = aliases.get(edit.entityName.toLowerCase());
+        const entityName = alias?.entity_name ?? edit.entityName;
+        const row = this.recordEntityChange('update_observations', entityName, () =>
+          this.reindexEntity(entityName, () =>
+            this.statements.updateObservation!.get(
+              this.encodeObservation(edit.content),
+              entityName,
+              edit.id
+            ) as ObservationRow | undefined
+          ),
+          edited => edited ? [edited.id] : []
+        );
+        if (row) {
+          this.statements.touchEntity!.run(entityName);
+          this.entityCache.delete(entityName.toLowerCase());
+          const record = this.toObservationRecord(row);
+          records.push(alias ? { ...record, matchedAlias: alias.alias } : record);
+        }
+      }
+
+      return records;
+    });
+
+    this.searchCache.clear();
+    return updated;
+  }
+
+  /**
+   * Renames an entity together with its observations, properties and relations.
+   * A name that differs only in case is allowed; a name held by another entity is not.
+   */
+  renameEntity(oldName: string, newName: string): EntityResult {
+    const renamed = this.operation('rename_entity', () => {
+      const before = this.captureEntity(oldName);
+      if (!before) throw new EntityNotFoundError(oldName);
+
+      const existing = this.statements.getEntity!.get(newName) as EntityRow | undefined;
+      if (existing && existing.name.toLowerCase() !== before.name.toLowerCase()) {
+        throw new DuplicateEntityError(newName);
+      }
+      this.assertNotAlias(newName);
+
+      return this.moveEntity(before, newName, 'rename');
+    });
+
+    this.searchCache.clear();
+    return stripProvenance(this.toEntitySnapshot(renamed));
+  }
+
+  // Names and aliases share one namespace, so that a lookup never matches two entities
+  private assertNotAlias(name: string): void {
+    const alias = this.statements.getAlias!.get(name) as AliasRow | undefined;
+    if (alias) throw new AliasConflictError(alias.alias, alias.entity_name);
+  }
+
+  /**
+   * Moves an entity and every relation on either end to a new name, logging the
+   * entity as gone under the old name and as new under the new one
+   */
+  private moveEntity(before: EntityState, newName: string, operation: HistoryOperation): EntityState {
+    const relations = this.statements.getRelationsTouching!.all(before.name, before.name) as RelationRow[];
+
+    // Relations are repointed after the entity, so foreign keys are checked at commit
+    this.db.pragma('defer_foreign_keys = ON');
+    this.statements.ftsRemoveEntity!.run(before.name);
+    this.statements.renameEntity!.run(newName, before.name);
+    this.statements.renameRelationsFrom!.run(newName, before.name);
+    this.statements.renameRelationsTo!.run(newName, before.name);
+    this.statements.ftsIndexEntity!.run(newName);
+
+    const after = this.captureEntity(newName)!;
+    this.logEntityChange(operation, before, null);
+    this.logEntityChange(operation, null, after);
+    for (const relation of relations) {
+      this.recordRelationChange(
+        operation,
+        relation,
+        this.statements.getRelationById!.get(relation.id) as RelationRow
+      );
+    }
+
+    this.entityBloom.remove(before.name.toLowerCase());
+    this.entityBloom.add(after.name.toLowerCase());
+    this.entityCache.delete(before.name.toLowerCase());
+    this.entityCache.delete(after.name.toLowerCase());
+    return after;
+  }
+
+  /**
+   * Folds source entities into the target. Observations the target lacks move over
+   * with their ids and provenance, properties the target lacks are copied, and
+   * relations are repointed; those that become self-loops are dropped, as are
+   * duplicates of the target's open relations, which absorb their counts.
+   * The source names become aliases of the target.
+   */
+  mergeEntities(targetName: string, sourceNames: string[]): MergeResult {
+    const merged = this.operation('merge_entities', () => {
+      const targetBefore = this.captureEntity(targetName);
+      if (!targetBefore) throw new EntityNotFoundError(targetName);
+      const target = targetBefore.name;
+      const isTarget = (name: string) => name.toLowerCase() === target.toLowerCase();
+
+      const sources = new Map<string, EntityState>();
+      for (const name of sourceNames) {
+        const source = this.captureEntity(name);
+        if (!source) throw new EntityNotFoundError(name);
+        if (isTarget(source.name)) {
+          throw new InvalidInputError('sourceNames', name, 'an entity other than the target');
+        }
+        sources.set(source.name.toLowerCase(), source);
+      }
+
+      const relationChanges: [RelationRow, RelationRow | null][] = [];
+      let relationsMoved = 0;
+      let relationsDropped = 0;
+
+      this.reindexEntity(target, () => {
+        for (const source of sources.values()) {
+          // Unindexed while its text is still what the index holds
+          this.statements.ftsRemoveEntity!.run(source.name);
+
+          const targetObservations = new Set(
+            (this.statements.getObservations!.all(target) as ObservationRow[])
+              .map(row => CompressionUtils.decompressObservation(row.content))
+          );
+          for (const obs of source.observations) {
+            const content = CompressionUtils.decompressObservation(obs.content);
+            if (targetObservations.has(content)) continue;
+            this.statements.moveObservation!.run(target, obs.id);
+            targetObservations.add(content);
+          }
+          this.statements.copyProperties!.run(target, source.name);
+          this.statements.copyTags!.run(target, source.name);
+          this.statements.moveAliases!.run(target, source.name);
+          this.statements.setAlias!.run(source.name, target);
+
+          for (const relation of this.statements.getRelationsTouching!.all(source.name, source.name) as RelationRow[]) {
+            const from = relation.from_entity.toLowerCase() === source.name.toLowerCase() ? target : relation.from_entity;
+            const to = relation.to_entity.toLowerCase() === source.name.toLowerCase() ? target : relation.to_entity;
+            const selfLoop = from.toLowerCase() === to.toLowerCase();
+            const duplicate = !selfLoop && relation.valid_to === null
+              ? this.statements.getOpenRelation!.get(from, to, relation.relation_type) as RelationRow | undefined
+              : undefined;
+
+            if (duplicate) {
+              relationChanges.push([
+                duplicate,
+                this.statements.absorbRelation!.get({ ...relation, id: duplicate.id }) as RelationRow
+              ]);
+            }
+            if (selfLoop || duplicate) {
+              this.statements.deleteRelationById!.run(relation.id);
+              relationChanges.push([relation, null]);
+              relationsDropped++;
+            } else {
+              relationChanges.push([relation, this.statements.repointRelation!.get(from, to, relation.id) as RelationRow]);
+              relationsMoved++;
+            }
+          }
+
+          // Duplicate observations and properties the target already had go with the source.
+          // The name stays in the bloom filter as an alias of the target.
+          this.statements.deleteEntity!.run(source.name);
+          this.entityCache.delete(source.name.toLowerCase());
+        }
+      });
+      this.statements.touchEntity!.run(target);
+      this.entityCache.delete(target.toLowerCase());
+
+      // Logged so that undo, working backwards, reverts the target before recreating the sources
+      for (const [before, after] of relationChanges) {
+        this.recordRelationChange('merge', before, after);
+      }
+      for (const source of sources.values()) {
+        this.logEntityChange('merge', source, null);
+      }
+      const targetAfter = this.captureEntity(target)!;
+      this.logEntityChange('merge', targetBefore, targetAfter);
+
+      return {
+        entity: stripProvenance(this.toEntitySnapshot(targetAfter)),
+        merged: Array.from(sources.values()).map(source => source.name),
+        relationsMoved,
+        relationsDropped
+      };
+    });
+
+    this.searchCache.clear();
+    return merged;
+  }
+
+  /**
+   * Moves entities to the trash with their observations, properties and relations,
+   * which restoreTrash puts back until the trash item is purged
+   */
+  deleteEntities(entityNames: string[]): void {
+    this.operation('delete_entities', () => {
+      for (const name of entityNames) {
+        const row = this.statements.getEntity!.get(name) as EntityRow | undefined;
+        if (row) {
+          const payload = this.trashEntity(
+            row,
+            this.statements.getRelationsTouching!.all(row.name, row.name) as RelationRow[]
+          );
+
+          // Relations and observations go with the entity (ON DELETE CASCADE)
+          for (const relation of payload.relations) {
+            this.recordRelationChange('delete_relation', relation, null);
+          }
+          this.logEntityChange(
+            'delete',
+            this.buildEntityState(row, payload.observations, payload.properties, payload.aliases, payload.tags),
+            null
+          );
+        }
+        this.statements.ftsRemoveEntity!.run(name);
+        this.statements.deleteEntity!.run(name);
+        this.entityBloom.remove(name.toLowerCase());
+        this.entityCache.delete(name.toLowerCase());
+      }
+      this.purgeExpiredTrash();
+    });
+    
+    this.searchCache.clear();
+  }
+
+  // Stores an entity's rows in the trash; the caller deletes the entity
+  private trashEntity(row: EntityRow, relations: RelationRow[]): TrashPayload {
+    const payload: TrashPayload = {
+      entity: row,
+      observations: this.statements.getObservations!.all(row.name) as ObservationRow[],
+      properties: this.statements.getProperties!.all(row.name) as PropertyRow[],
+      relations,
+      aliases: this.loadEntityAliases(row.name),
+      tags: this.loadEntityTags(row.name)
+    };
+    this.statements.insertTrash!.run(row.name, JSON.stringify(payload), this.currentOperation?.id ?? null);
+    return payload;
+  }
+
+  // Trashed entities, most recently deleted first
+  listTrash(limit: number = -1): TrashItem[] {
+    const rows = this.db.prepare('SELECT * FROM trash ORDER BY id DESC LIMIT ?').all(limit) as TrashRow[];
+    return rows.map(row => {
+      const payload = JSON.parse(row.payload) as TrashPayload;
+      return this.toTrashItem(row, payload, payload.relations);
+    });
+  }
+
+  private toTrashItem(row: TrashRow, payload: TrashPayload, relations: RelationRow[]): TrashItem {
+    return {
+      id: row.id,
+      entity: stripProvenance(
+        this.buildSnapshot(payload.entity, payload.observations, payload.properties, payload.aliases, payload.tags)
+      ),
+      relations: relations.map(relation => this.toRelationResult(relation)),
+      deletedAt: julianToIso(row.deleted_at)
+    };
+  }
+
+  /**
+   * Puts the most recently trashed entity of each name back as it was stored.
+   * Names that are in use again stay in the trash; relations whose other end
+   * no longer exists, or that were re-created since, are dropped.
+   * Returns the restored items with the relations that came back.
+   */
+  restoreTrash(entityNames: string[]): TrashItem[] {
+    const restored = this.operation('restore_trash', () => {
+      const items: TrashItem[] = [];
+
+      for (const name of entityNames) {
+        const row = this.statements.getLatestTrash!.get(name) as TrashRow | undefined;
+        if (!row || this.statements.getEntity!.get(name) || this.statements.getAlias!.get(name)) continue;
+
+        const payload = JSON.parse(row.payload) as TrashPayload;
+        const entityName = payload.entity.name;
+        this.statements.restoreEntity!.run(payload.entity);
+        for (const observation of payload.observations) {
+          this.statements.restoreObservation!.run(observation);
+        }
+        for (const property of payload.properties) {
+          this.statements.restoreProperty!.run(property);
+        }
+        for (const alias of payload.aliases ?? []) {
+          this.statements.restoreAlias!.run(alias, entityName);
+          this.entityBloom.add(alias.toLowerCase());
+        }
+        for (const tag of payload.tags ?? []) {
+          this.statements.addTag!.run(entityName, tag);
+        }
+        this.statements.ftsIndexEntity!.run(entityName);
+        this.logEntityChange('restore', null, this.captureEntity(entityName));
+
+        const relations: RelationRow[] = [];
+        for (const relation of payload.relations) {
+          if (!this.statements.getEntity!.get(relation.from_entity) ||
+              !this.statements.getEntity!.get(relation.to_entity)) continue;
+          const restoredRelation = this.statements.restoreRelation!.get(relation) as RelationRow | undefined;
+          if (restoredRelation) {
+            this.recordRelationChange('restore_relation', null, restoredRelation);
+            relations.push(restoredRelation);
+          }
+        }
+
+        this.statements.deleteTrash!.run(row.id);
+        this.entityBloom.add(entityName.toLowerCase());
+        this.entityCache.delete(entityName.toLowerCase());
+        items.push(this.toTrashItem(row, payload, relations));
+      }
+
+      return items;
+    });
+
+    if (restored.length > 0) this.searchCache.clear();
+    return restored;
+  }
+
+  // Permanently removes trash items; returns how many were removed
+  purgeTrash(options: TrashPurgeOptions = {}): number {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (options.entityNames !== undefined) {
+      if (options.entityNames.length === 0) return 0;
+      conditions.push('entity_name IN (SELECT value FROM json_each(?))');
+      params.push(JSON.stringify(options.entityNames));
+    }
+    if (options.olderThanDays !== undefined) {
+      conditions.push('deleted_at <= ?');
+      params.push(isoToJulian(undefined, 'olderThanDays') - options.olderThanDays);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return this.db.prepare(`DELETE FROM trash ${where}`).run(...params).changes;
+  }
+
+  private purgeExpiredTrash(): void {
+    if (this.trashRetentionDays <= 0) return;
+
+    const purged = this.purgeTrash({ olderThanDays: this.trashRetentionDays });
+    if (purged > 0) {
+      logInfo('Purged expired trash', { path: this.dbPath, purged, retentionDays: this.trashRetentionDays });
+    }
+  }
+
+  /**
+   * Reverts the last `count` operations that have not been undone yet, newest
+   * first, by writing back the before-snapshots of their history entries.
+   * Every entity and relation must still be as the operation left it; otherwise
+   * UndoConflictError is thrown and nothing is reverted. The undo is logged as
+   * an operation of its own, which is never undone itself.
+   */
+  undo(count: number = 1): UndoneOperation[] {
+    const operations = this.db.prepare(`
+      SELECT * FROM operations WHERE undone_by IS NULL AND name != 'undo'
+      ORDER BY id DESC LIMIT ?
+    `).all(count) as OperationRow[];
+    if (operations.length === 0) return [];
+
+    const undone = this.operation('undo', () => {
+      const undoId = this.currentOperation!.id;
+
+      return operations.map(operation => {
+        const rows = this.statements.getOperationHistory!.all(operation.id) as HistoryRow[];
+        const entities = new Set<string>();
+        // Relations removed so far, which go back to the trash with an un-restored entity
+        const removedRelations: RelationRow[] = [];
+
+        if (operation.name === 'rename_entity') {
+          this.revertRename(operation.id, rows);
+        } else {
+          for (const row of rows) {
+            if (row.relation_id === null) {
+              this.revertEntityChange(operation.id, row, removedRelations);
+            } else {
+              this.revertRelationChange(operation.id, row, removedRelations);
+            }
+          }
+        }
+        for (const row of rows) {
+          entities.add(row.entity_name);
+          if (row.related_entity !== null) entities.add(row.related_entity);
+        }
+
+        // Entities the operation deleted are back, so their trash items go
+        this.statements.deleteTrashByOperation!.run(operation.id);
+        this.statements.markOperationUndone!.run(undoId, operation.id);
+
+        return {
+          id: operation.id,
+          name: operation.name,
+          performedAt: julianToIso(operation.created_at),
+          changes: rows.length,
+          entities: Array.from(entities)
+        };
+      });
+    });
+
+    this.entityCache.clear();
+    this.searchCache.clear();
+    return undone;
+  }
+
+  // Renames the entity back, provided it and its relations are as the rename left them
+  private revertRename(operationId: number, rows: HistoryRow[]): void {
+    // Newest first: the entity under its new name, then gone from the old one
+    const [appeared, gone] = rows.filter(row => row.relation_id === null);
+    const renamed = this.entityStateAt(appeared.entity_name, appeared.id)!;
+    const original = this.entityStateBefore(gone)!;
+
+    if (!sameEntityState(this.captureEntity(renamed.name), renamed)) {
+      throw new UndoConflictError(operationId, renamed.name);
+    }
+    for (const row of rows) {
+      if (row.relation_id === null) continue;
+      const current = this.statements.getRelationById!.get(row.relation_id) as RelationRow | undefined;
+      if (!current || JSON.stringify(this.toRelationResult(current)) !== row.after) {
+        throw new UndoConflictError(operationId, row.entity_name);
+      }
+    }
+
+    const existing = this.statements.getEntity!.get(original.name) as EntityRow | undefined;
+    if ((existing && existing.name.toLowerCase() !== renamed.name.toLowerCase()) ||
+        this.statements.getAlias!.get(original.name)) {
+      throw new UndoConflictError(operationId, original.name);
+    }
+
+    this.moveEntity(renamed, original.name, 'undo');
+  }
+
+  private revertEntityChange(operationId: number, row: HistoryRow, removedRelations: RelationRow[]): void {
+    const current = this.captureEntity(row.entity_name);
+    if (!sameEntityState(current, this.entityStateAt(row.entity_name, row.id))) {
+      throw new UndoConflictError(operationId, row.entity_name);
+    }
+
+    const before = this.entityStateBefore(row);
+    if (before !== null) {
+      // Recreating an entity whose name has since become an alias would shadow it
+      if (current === null && this.statements.getAlias!.get(before.name)) {
+        throw new UndoConflictError(operationId, row.entity_name);
+      }
+      this.writeEntityState(before);
+    } else {
+      // The operation created the entity; relations to it would vanish unlogged
+      const entityRow = this.statements.getEntity!.get(row.entity_name) as EntityRow;
+      if ((this.statements.getRelationsTouching!.all(entityRow.name, entityRow.name) as RelationRow[]).length > 0) {
+        throw new UndoConflictError(operationId, row.entity_name);
+      }
+      if (row.operation === 'restore') {
+        const lowerName = entityRow.name.toLowerCase();
+        this.trashEntity(entityRow, removedRelations.filter(relation =>
+          relation.from_entity.toLowerCase() === lowerName || relation.to_entity.toLowerCase() === lowerName
+        ));
+      }
+      this.statements.ftsRemoveEntity!.run(entityRow.name);
+      this.statements.deleteEntity!.run(entityRow.name);
+      this.entityBloom.remove(entityRow.name.toLowerCase());
+    }
+
+    this.logEntityChange('undo', current, this.captureEntity(row.entity_name));
+  }
+
+  // Writes an entity back to a logged state, keeping observation ids and provenance
+  private writeEntityState(snapshot: EntityState): void {
+    const write = () => {
+      this.statements.createEntity!.get(snapshot.name, snapshot.entityType);
+      this.statements.deleteEntityObservations!.run(snapshot.name);
+      for (const obs of snapshot.observations) {
+        this.statements.restoreObservation!.run({
+          id: obs.id,
+          entity_name: snapshot.name,
+          // Stored under the current compression setting, whatever it was when logged
+          content: this.encodeObservation(CompressionUtils.decompressObservation(obs.content)),
+          source: obs.source ?? null,
+          session_id: obs.sessionId ?? null,
+          agent: obs.agent ?? null,
+          confidence: obs.confidence ?? null,
+          created_at: isoToJulian(obs.createdAt, 'createdAt')
+        });
+      }
+      this.statements.deleteEntityProperties!.run(snapshot.name);
+      for (const [key, value] of Object.entries(snapshot.properties)) {
+        const stored = encodePropertyValue(key, value);
+        this.statements.setProperty!.run(snapshot.name, key, stored.type, stored.text, stored.number);
+      }
+      this.statements.deleteEntityAliases!.run(snapshot.name);
+      for (const alias of snapshot.aliases) {
+        this.statements.restoreAlias!.run(alias, snapshot.name);
+        this.entityBloom.add(alias.toLowerCase());
+      }
+      this.statements.deleteEntityTags!.run(snapshot.name);
+      for (const tag of snapshot.tags) {
+        this.statements.addTag!.run(snapshot.name, tag);
+      }
+    };
+
+    if (this.statements.getEntity!.get(snapshot.name)) {
+      this.reindexEntity(snapshot.name, write);
+    } else {
+      write();
+      this.statements.ftsIndexEntity!.run(snapshot.name);
+      this.entityBloom.add(snapshot.name.toLowerCase());
+    }
+  }
+
+  private revertRelationChange(operationId: number, row: HistoryRow, removedRelations: RelationRow[]): void {
+    const currentRow = this.statements.getRelationById!.get(row.relation_id) as RelationRow | undefined;
+    const current = currentRow ? this.toRelationResult(currentRow) : null;
+    if (JSON.stringify(current) !== (row.after ?? 'null')) {
+      throw new UndoConflictError(operationId, row.entity_name);
+    }
+
+    if (row.before === null) {
+      const removed = this.statements.deleteRelationById!.get(row.relation_id) as RelationRow;
+      removedRelations.push(removed);
+      this.recordRelationChange('undo', removed, null);
+      return;
+    }
+
+    const before = JSON.parse(row.before) as RelationResult;
+    const columns = {
+      id: row.relation_id,
+      from_entity: before.from,
+      to_entity: before.to,
+      relation_type: before.relationType,
+      weight: before.weight ?? null,
+      confidence: before.confidence ?? null,
+      metadata: before.metadata ? JSON.stringify(before.metadata) : null,
+      count: before.count ?? 1,
+      valid_from: before.validFrom === undefined ? null : isoToJulian(before.validFrom, 'validFrom'),
+      valid_to: before.validTo === undefined ? null : isoToJulian(before.validTo, 'validTo')
+    };
+
+    let restored: RelationRow | undefined;
+    if (currentRow) {
+      restored = this.statements.rewriteRelation!.get(columns) as RelationRow;
+    } else if (this.statements.getEntity!.get(before.from) && this.statements.getEntity!.get(before.to)) {
+      // Skipped when an open duplicate has been created since
+      restored = this.statements.restoreRelation!.get({
+        ...columns,
+        created_at: isoToJulian(undefined, 'createdAt')
+      }) as RelationRow | undefined;
+    }
+    if (!restored) {
+      throw new UndoConflictError(operationId, row.entity_name);
+    }
+    this.recordRelationChange('undo', currentRow ?? null, restored);
+  }
+
+  deleteObservations(deletions: ObservationDeletion[]): number {
+    if (deletions.length === 0) return 0;
+    
+    const aliases = this.resolveAliases(deletions.map(deletion => deletion.entityName));
+    
+    const deleted = this.operation('delete_observations', () => {
+      let count = 0;
+
+      for (const deletion of deletions) {
+        const entityName = aliases.get(deletion.entityName.toLowerCase())?.entity_name ?? deletion.entityName;
+        if (!this.statements.getEntity!.get(entityName)) continue;
+
+        const removed = this.recordEntityChange('delete_observations', entityName, () =>
+          this.reindexEntity(entityName, () => {
+            let changes = 0;
+            for (const content of deletion.observations ?? []) {
+              changes += this.statements.deleteObservationsByContent!.run(
+                entityName,
+                content,
+                CompressionUtils.compressObservation(content)
+              ).changes;
+            }
+            for (const id of deletion.ids ?? []) {
+              changes += this.statements.deleteObservation!.run(entityName, id).changes;
+            }
+            return changes;
+          })
+        );
+
+        if (removed > 0) {
+          this.statements.touchEntity!.run(entityName);
+          this.entityCache.delete(entityName.toLowerCase());
+          count += removed;
+        }
+      }
+
+      return count;
+    });
+    
+    this.searchCache.clear();
+    return deleted;
+  }
+
+  deleteRelations(relations: CreateRelationInput[]): void {
+    const deleted = this.operation('delete_relations', () => {
+      let count = 0;
+      for (const relation of relations) {
+        const rows = this.statements.deleteRelation!.all(
+          relation.from,
+          relation.to,
+          relation.relationType
+        ) as RelationRow[];
+        for (const row of rows) {
+          this.recordRelationChange('delete_relation', row, null);
+        }
+        count += rows.length;
+      }
+      return count;
+    });
+
+    // Cached search results carry relations
+    if (deleted > 0) this.searchCache.clear();
+  }
+
+  openNodes(names: string[], includeProvenance: boolean = false, asOf?: string): GraphResult {
+    if (names.length === 0) return { entities: [], relations: [] };
+
+    if (asOf !== undefined) {
+      const at = isoToJulian(asOf, 'asOf');
+      const entities = this.entitiesAsOf(at, names);
+      return {
+        entities: includeProvenance ? entities : entities.map(stripProvenance),
+        relations: entities.length > 0 ? this.relationsAsOf(at, entities.map(e => e.name)) : []
+      };
+    }
+
+    // Aliases are looked up as the entities they name, each entity once
+    const aliases = this.resolveAliases(names);
+    const lookups = new Map<string, string>();
+    const matchedAliases = new Map<string, string>();
+    for (const name of names) {
+      const alias = aliases.get(name.toLowerCase());
+      const entityName = alias?.entity_name ?? name;
+      lookups.set(entityName.toLowerCase(), entityName);
+      if (alias) matchedAliases.set(entityName.toLowerCase(), alias.alias);
+    }
+    const entities = this.getEntities(Array.from(lookups.values())).map(entity => {
+      const matchedAlias = matchedAliases.get(entity.name.toLowerCase());
+      return matchedAlias ? { ...entity, matchedAlias } : entity;
+    });
+    
+    const foundNames = entities.map(e => e.name);
+    const relations = foundNames.length > 0 
+      ? this.getRelationsForEntities(foundNames, asOf) 
+      : [];
+    
+    const result = { entities, relations };
+    return includeProvenance ? this.withProvenance(result) : result;
+  }
+
+  /*
+   * Time travel. The change log records every write since schema version 9,
+   * so the state of an entity or relation at an instant is:
+   *   - its state after its latest change at or before the instant, else
+   *   - its state before its first change after the instant, else
+   *   - its current row when the log has never touched it.
+   * Entity states are replayed from deltas (see logEntityChange), starting
+   * from an entry that holds the whole entity: an entity's first entry does.
+   * Rows created after the instant are left out; the creation time of items
+   * deleted before they were ever logged is unknown, so those are kept.
+   */
+
+  // Entities as recorded at a julianday instant, with provenance, most recently changed first
+  private entitiesAsOf(at: number, names?: string[]): EntityResult[] {
+    const nameFilter = names ? 'AND entity_name IN (SELECT value FROM json_each(?))' : '';
+    const nameParams = names ? [JSON.stringify(names)] : [];
+
+    const logged = this.db.prepare(`
+      WITH last_before AS (
+        SELECT entity_name, MAX(id) AS id FROM entity_history
+        WHERE relation_id IS NULL AND created_at <= ? ${nameFilter}
+        GROUP BY entity_name
+      ),
+      first_after AS (
+        SELECT entity_name, MIN(id) AS id FROM entity_history
+        WHERE relation_id IS NULL AND created_at > ? ${nameFilter}
+        GROUP BY entity_name
+      )
+      SELECT h.entity_name, h.id, NULL AS snapshot, h.created_at AS changed_at
+      FROM last_before l JOIN entity_history h ON h.id = l.id
+      UNION ALL
+      SELECT h.entity_name, NULL AS id, h.before AS snapshot, NULL AS changed_at
+      FROM first_after f JOIN entity_history h ON h.id = f.id
+      WHERE f.entity_name NOT IN (SELECT entity_name FROM last_before)
+        AND NOT EXISTS (SELECT 1 FROM entities e WHERE e.name = f.entity_name AND e.created_at > ?)
+    `).all(at, ...nameParams, at, ...nameParams, at) as {
+      entity_name: string;
+      id: number | null;
+      snapshot: string | null;
+      changed_at: number | null;
+    }[];
+
+    const untouchedRows = this.db.prepare(`
+      SELECT * FROM entities e
+      WHERE e.created_at <= ? ${names ? 'AND e.name IN (SELECT value FROM json_each(?))' : ''}
+        AND NOT EXISTS (
+          SELECT 1 FROM entity_history h WHERE h.entity_name = e.name AND h.relation_id IS NULL
+        )
+    `).all(at, ...nameParams) as EntityRow[];
+    const untouched = this.withProvenance({ entities: this.toEntityResults(untouchedRows), relations: [] });
+
+    const versions: { entity: EntityResult; changedAt: number }[] = [];
+    for (const row of logged) {
+      const state = row.id !== null
+        ? this.entityStateAt(row.entity_name, row.id)
+        : row.snapshot && this.parseEntityState(row.snapshot);
+      if (!state) continue;
+      versions.push({ entity: this.toEntitySnapshot(state), changedAt: row.changed_at ?? -Infinity });
+    }
+    untouched.entities.forEach((entity, i) => {
+      versions.push({ entity, changedAt: untouchedRows[i].updated_at });
+    });
+
+    return versions
+      .sort((a, b) => b.changedAt - a.changedAt || a.entity.name.localeCompare(b.entity.name))
+      .map(version => version.entity);
+  }
+
+  // Relations recorded at a julianday instant that held at that instant
+  private relationsAsOf(at: number, names?: string[]): RelationResult[] {
+    const nameFilter = names
+      ? `AND (entity_name IN (SELECT value FROM json_each(?)) OR related_entity IN (SELECT value FROM json_each(?)))`
+      : '';
+    const nameParams = names ? [JSON.stringify(names), JSON.stringify(names)] : [];
+
+    const logged = this.db.prepare(`
+      WITH last_before AS (
+        SELECT relation_id, MAX(id) AS id FROM entity_history
+        WHERE relation_id IS NOT NULL AND created_at <= ? ${nameFilter}
+        GROUP BY relation_id
+      ),
+      first_after AS (
+        SELECT relation_id, MIN(id) AS id FROM entity_history
+        WHERE relation_id IS NOT NULL AND created_at > ? ${nameFilter}
+        GROUP BY relation_id
+      )
+      SELECT h.after AS snapshot FROM last_before l JOIN entity_history h ON h.id = l.id
+      UNION ALL
+      SELECT h.before AS snapshot FROM first_after f JOIN entity_history h ON h.id = f.id
+      WHERE f.relation_id NOT IN (SELECT relation_id FROM last_before)
+        AND NOT EXISTS (SELECT 1 FROM relations r WHERE r.id = f.relation_id AND r.created_at > ?)
+    `).all(at, ...nameParams, at, ...nameParams, at) as { snapshot: string | null }[];
+
+    // Relation changes are logged under from_entity, which the index covers
+    const untouchedRows = this.db.prepare(`
+      SELECT * FROM relations r
+      WHERE r.created_at <= ? ${names
+        ? 'AND (r.from_entity IN (SELECT value FROM json_each(?)) OR r.to_entity IN (SELECT value FROM json_each(?)))'
+        : ''}
+        AND NOT EXISTS (
+          SELECT 1 FROM entity_history h WHERE h.entity_name = r.from_entity AND h.relation_id = r.id
+        )
+    `).all(at, ...nameParams) as RelationRow[];
+
+    const relations: RelationResult[] = [
+      ...logged.filter(row => row.snapshot !== null).map(row => JSON.parse(row.snapshot!) as RelationResult),
+      ...untouchedRows.map(row => this.toRelationResult(row))
+    ];
+
+    // A relation's log can span renames, so its snapshot may name other entities
+    const wanted = names ? new Set(names.map(name => name.toLowerCase())) : undefined;
+    const time = (at - 2440587.5) * 86400000;
+    return relations.filter(relation =>
+      (!wanted || wanted.has(relation.from.toLowerCase()) || wanted.has(relation.to.toLowerCase())) &&
+      (relation.validFrom === undefined || Date.parse(relation.validFrom) <= time) &&
+      (relation.validTo === undefined || Date.parse(relation.validTo) > time)
+    );
+  }
+
+  private readGraphAsOf(
+    limit: number | undefined,
+    offset: number,
+    propertyFilters: PropertyFilter[],
+    asOf: string
+  ): GraphResult {
+    const at = isoToJulian(asOf, 'asOf');
+
+    const allEntities = this.entitiesAsOf(at)
+      .filter(entity => this.matchesFiltersAsOf(entity, { propertyFilters }))
+      .map(stripProvenance);
+    const entities = limit ? allEntities.slice(offset, offset + limit) : allEntities;
+
+    const allRelations = this.relationsAsOf(at);
+    const names = new Set(entities.map(e => e.name.toLowerCase()));
+    const relations = allRelations.filter(relation =>
+      names.has(relation.from.toLowerCase()) || names.has(relation.to.toLowerCase())
+    );
+
+    return {
+      entities,
+      relations,
+      pagination: limit ? {
+        totalEntities: allEntities.length,
+        totalRelations: allRelations.length,
         offset,
         limit,
-        hasMore: offset + entities.length < totalEntities
+        hasMore: offset + entities.length < allEntities.length
       } : undefined
     };
   }
 
-  getRelationsForEntities(entityNames: string[]): RelationResult[] {
-    if (entityNames.length === 0) return [];
+  /**
+   * Search over the entities recorded at asOf. The FTS index only covers the
+   * current state, so snapshots are matched term by term (case-insensitive
+   * substrings) and ranked by the number of terms they contain.
+   */
+  private searchNodesAsOf(query: string, limit: number, offset: number, options: SearchOptions): GraphResult {
+    const at = isoToJulian(options.asOf, 'asOf');
+    const includeProvenance = options.includeProvenance === true;
+    const terms = query.toLowerCase().split(/\s+/).filter(term => term.length > 0);
 
-    // Use temporary table for large queries
-    if (entityNames.length > this.relationQueryThreshold) {
-      return this.transaction(() => {
-        // Create temp table
-        this.db.exec('CREATE TEMP TABLE IF NOT EXISTS temp_entities (name TEXT PRIMARY KEY)');
-        
-        const insertStmt = this.db.prepare('INSERT OR IGNORE INTO temp_entities VALUES (?)');
-        for (const name of entityNames) {
-          insertStmt.run(name);
-        }
-        
-        // Query using temp table
-        const rows = this.db.prepare(`
-          SELECT DISTINCT r.* FROM relations r
-          WHERE r.from_entity IN (SELECT name FROM temp_entities)
-             OR r.to_entity IN (SELECT name FROM temp_entities)
-        `).all() as RelationRow[];
-        
-        // Clean up
-        this.db.exec('DROP TABLE temp_entities');
-        
-        return rows.map(row => ({
-          type: 'relation',
-          from: row.from_entity,
-          to: row.to_entity,
-          relationType: row.relation_type
-        }));
-      });
+    const matches: { entity: EntityResult; score: number }[] = [];
+    for (const entity of this.entitiesAsOf(at)) {
+      if (!this.matchesFiltersAsOf(entity, options)) continue;
+      const text = [entity.name, entity.entityType, ...entity.observations, ...(entity.aliases ?? [])]
+        .join('\n')
+        .toLowerCase();
+      const score = terms.filter(term => text.includes(term)).length;
+      if (score > 0) matches.push({ entity, score });
     }
 
-    // Use IN clause for small queries
-    const placeholders = entityNames.map(() => '?').join(',');
-    const rows = this.db.prepare(`
-      SELECT * FROM relations 
-      WHERE from_entity IN (${placeholders}) 
-         OR to_entity IN (${placeholders})
-    `).all(...entityNames, ...entityNames) as RelationRow[];
-    
-    return rows.map(row => ({
-      type: 'relation',
-      from: row.from_entity,
-      to: row.to_entity,
-      relationType: row.relation_type
-    }));
+    const entities = matches
+      .sort((a, b) => b.score - a.score)
+      .slice(offset, offset + limit)
+      .map(match => includeProvenance ? match.entity : stripProvenance(match.entity));
+
+    return {
+      entities,
+      relations: entities.length > 0 ? this.relationsAsOf(at, entities.map(e => e.name)) : [],
+      page: { total: matches.length, limit, hasMore: offset + entities.length < matches.length }
+    };
   }
 
-  addObservations(updates: ObservationUpdate[]): void {
-    if (updates.length === 0) return;
+  /**
+   * Type, property and tag filters applied to an entity state rebuilt from the
+   * change log, matching what the SQL filters select among current entities
+   */
+  private matchesFiltersAsOf(
+    entity: EntityResult,
+    filters: Pick<SearchOptions, 'propertyFilters' | 'tags' | 'tagMode' | 'entityTypes'>
+  ): boolean {
+    const { propertyFilters = [], tags = [], tagMode = 'all', entityTypes = [] } = filters;
 
-    this.transaction(() => {
-      for (const update of updates) {
-        const row = this.statements.getEntity!.get(update.entityName) as EntityRow | undefined;
-        if (row) {
-          const existing = this.compressionEnabled 
-            ? CompressionUtils.decompressObservations(row.observations)
-            : parseObservations(row.observations);
-          
-          const combined = Array.from(new Set([...existing, ...update.contents]));
-          const observationsJson = this.compressionEnabled 
-            ? CompressionUtils.compressObservations(combined)
-            : stringifyObservations(combined);
-          
-          this.statements.updateObservations!.run(observationsJson, update.entityName);
-          this.entityCache.delete(update.entityName.toLowerCase());
-        }
-      }
-    });
-    
-    this.searchCache.clear();
+    if (entityTypes.length > 0) {
+      const types = new Set(entityTypes.map(type => (this.ontology?.normalizeEntityType(type) ?? type).toLowerCase()));
+      if (!types.has(entity.entityType.toLowerCase())) return false;
+    }
+
+    for (const filter of propertyFilters) {
+      const value = entity.properties?.[filter.key];
+      if (value === undefined) return false;
+      // Past values are typed again by inference, as they were when untyped
+      const stored = encodePropertyValue(filter.key, value);
+      const wanted = encodePropertyValue(filter.key, filter.value);
+      if (stored.type !== wanted.type) return false;
+      const column = stored.type === 'string' ? 'text' : 'number';
+      if (!PROPERTY_COMPARISONS[filter.op](stored[column]!, wanted[column]!)) return false;
+    }
+
+    if (tags.length > 0) {
+      const entityTags = new Set((entity.tags ?? []).map(tag => tag.toLowerCase()));
+      const wanted = new Set(tags.map(tag => tag.toLowerCase()));
+      const found = Array.from(wanted).filter(tag => entityTags.has(tag)).length;
+      if (tagMode === 'any' ? found === 0 : found < wanted.size) return false;
+    }
+
+    return true;
   }
 
-  deleteEntities(entityNames: string[]): void {
-    this.transaction(() => {
-      for (const name of entityNames) {
-        this.statements.deleteEntity!.run(name);
-        this.entityBloom.remove(name.toLowerCase());
-        this.entityCache.delete(name.toLowerCase());
+  /**
+   * Re-reads observations with their provenance for every entity in a result.
+   * Cached entities only carry observation text, so both lists come from the same rows.
+   */
+  private withProvenance(graph: GraphResult): GraphResult {
+    const rowsByEntity = new Map<string, ObservationRow[]>();
+    for (const entity of graph.entities) {
+      rowsByEntity.set(entity.name.toLowerCase(), []);
+    }
+
+    const names = graph.entities.map(entity => entity.name);
+    for (let i = 0; i < names.length; i += MemoryDatabase.IN_CLAUSE_CHUNK) {
+      const chunk = names.slice(i, i + MemoryDatabase.IN_CLAUSE_CHUNK);
+      const placeholders = chunk.map(() => '?').join(',');
+      const rows = this.db.prepare(
+        `SELECT * FROM observations WHERE entity_name IN (${placeholders}) ORDER BY id`
+      ).all(...chunk) as ObservationRow[];
+
+      for (const row of rows) {
+        rowsByEntity.get(row.entity_name.toLowerCase())?.push(row);
       }
-    });
-    
-    this.searchCache.clear();
+    }
+
+    return {
+      ...graph,
+      entities: graph.entities.map(entity => {
+        const rows = rowsByEntity.get(entity.name.toLowerCase())!;
+        return {
+          ...entity,
+          observations: rows.map(row => CompressionUtils.decompressObservation(row.content)),
+          provenance: rows.map(row => this.toProvenanceInfo(row))
+        };
+      })
+    };
   }
 
-  deleteObservations(deletions: ObservationDeletion[]): void {
-    if (deletions.length === 0) return;
-    
-    this.transaction(() => {
-      for (const deletion of deletions) {
-        const row = this.statements.getEntity!.get(deletion.entityName) as EntityRow | undefined;
-        if (row) {
-          const existing = this.compressionEnabled 
-            ? CompressionUtils.decompressObservations(row.observations)
-            : parseObservations(row.observations);
-          
-          const toRemove = new Set(deletion.observations);
-          const updated = existing.filter(obs => !toRemove.has(obs));
-          
-          const observationsJson = this.compressionEnabled 
-            ? CompressionUtils.compressObservations(updated)
-            : stringifyObservations(updated);
-          
-          this.statements.updateObservations!.run(observationsJson, deletion.entityName);
-          this.entityCache.delete(deletion.entityName.toLowerCase());
-        }
-      }
-    });
-    
-    this.searchCache.clear();
+  getNeighbors(entityName: string, options: GetNeighborsOptions): GraphResult {
+    const perf = new PerformanceTracker('getNeighbors', { entityName, depth: options.depth });
+
+    const start = this.getTraversalEntity(entityName, options.asOf);
+    if (!start) throw new EntityNotFoundError(entityName);
+
+    const traversal = breadthFirstTraversal(
+      start.name,
+      options.depth,
+      options.direction,
+      (node, direction) => this.getAdjacentRelations(node, direction, options.relationType, options.asOf)
+    );
+
+    const neighborNames: string[] = [];
+    for (const [key, name] of traversal.names) {
+      if (traversal.distances.get(key)! > 0) neighborNames.push(name);
+    }
+
+    const entities: EntityResult[] = this.getEntities(neighborNames, options.asOf)
+      .map(entity => ({ ...entity, _distance: traversal.distances.get(entity.name.toLowerCase()) }))
+      .sort((a, b) => a._distance! - b._distance! || a.name.localeCompare(b.name));
+
+    const relations = options.includeRelations ? traversal.edges : [];
+
+    perf.end({ entities: entities.length, relations: relations.length });
+    return { entities, relations };
   }
 
-  deleteRelations(relations: CreateRelationInput[]): void {
-    this.transaction(() => {
-      for (const relation of relations) {
-        this.statements.deleteRelation!.run(
-          relation.from,
-          relation.to,
-          relation.relationType
-        );
-      }
-    });
+  findShortestPath(from: string, to: string, options: FindShortestPathOptions): ShortestPathResult {
+    const perf = new PerformanceTracker('findShortestPath', { from, to, weighted: !!options.weighted });
+
+    const source = this.getTraversalEntity(from, options.asOf);
+    if (!source) throw new EntityNotFoundError(from);
+    const target = this.getTraversalEntity(to, options.asOf);
+    if (!target) throw new EntityNotFoundError(to);
+
+    // Non-bidirectional search only follows relations from -> to
+    const direction: TraversalDirection = options.bidirectional ? 'both' : 'outgoing';
+    const expand = (node: string, dir: TraversalDirection) =>
+      this.getAdjacentRelations(node, dir, options.relationType, options.asOf);
+
+    const path = options.weighted
+      ? dijkstraShortestPath(
+          source.name,
+          target.name,
+          options.maxDepth,
+          direction,
+          expand,
+          edge => edgeCost(edge, options.relationWeights)
+        )
+      : bidirectionalShortestPath(source.name, target.name, options.maxDepth, direction, expand);
+
+    perf.end({ found: path.found, nodesExplored: path.nodesExplored });
+    return {
+      found: path.found,
+      path: path.nodes,
+      relations: path.edges,
+      distance: path.found ? path.edges.length : -1,
+      cost: options.weighted && path.found ? path.cost : undefined,
+      nodesExplored: path.nodesExplored
+    };
   }
 
-  openNodes(names: string[]): GraphResult {
-    if (names.length === 0) return { entities: [], relations: [] };
+  // Where traversals start and end; with asOf, entities deleted since are found in the change log
+  private getTraversalEntity(name: string, asOf?: string): EntityResult | undefined {
+    return asOf !== undefined ? this.getEntities([name], asOf)[0] : this.getEntity(name);
+  }
+
+  /**
+   * Relations of one entity that hold now, or - with asOf - that were recorded
+   * and valid at that time, including relations deleted since
+   */
+  getAdjacentRelations(
+    entityName: string,
+    direction: TraversalDirection,
+    relationType?: string,
+    asOf?: string
+  ): RelationResult[] {
+    if (asOf !== undefined) {
+      const name = entityName.toLowerCase();
+      return this.relationsAsOf(isoToJulian(asOf, 'asOf'), [entityName]).filter(relation =>
+        (relationType === undefined || relation.relationType === relationType) &&
+        ((direction !== 'incoming' && relation.from.toLowerCase() === name) ||
+          (direction !== 'outgoing' && relation.to.toLowerCase() === name))
+      );
+    }
+
+    const rows: RelationRow[] = [];
+    const validAt = isoToJulian(undefined, 'asOf');
+
+    if (direction !== 'incoming') {
+      rows.push(...(relationType
+        ? this.statements.getOutgoingRelationsByType!.all(entityName, relationType, validAt, validAt)
+        : this.statements.getOutgoingRelations!.all(entityName, validAt, validAt)) as RelationRow[]);
+    }
+    if (direction !== 'outgoing') {
+      rows.push(...(relationType
+        ? this.statements.getIncomingRelationsByType!.all(entityName, relationType, validAt, validAt)
+        : this.statements.getIncomingRelations!.all(entityName, validAt, validAt)) as RelationRow[]);
+    }
+
+    return rows.map(row => this.toRelationResult(row));
+  }
+
+  // With asOf, the entities as recorded at that time, including those deleted since
+  getEntities(names: string[], asOf?: string): EntityResult[] {
+    if (asOf !== undefined) {
+      return names.length > 0 ? this.entitiesAsOf(isoToJulian(asOf, 'asOf'), names).map(stripProvenance) : [];
+    }
 
     const entities: EntityResult[] = [];
     const namesToQuery: string[] = [];
@@ -531,38 +2932,437 @@ export class MemoryDatabase {
       } 
     }
 
-    // Query remaining entities
-    if (namesToQuery.length > 0) {
-      const placeholders = namesToQuery.map(() => '?').join(',');
+    // Query remaining entities in chunks to stay under SQLite's variable limit
+    for (let i = 0; i < namesToQuery.length; i += MemoryDatabase.IN_CLAUSE_CHUNK) {
+      const chunk = namesToQuery.slice(i, i + MemoryDatabase.IN_CLAUSE_CHUNK);
+      const placeholders = chunk.map(() => '?').join(',');
       const entityRows = this.db.prepare(
         `SELECT * FROM entities WHERE name IN (${placeholders})`
-      ).all(...namesToQuery) as EntityRow[];
+      ).all(...chunk) as EntityRow[];
       
-      for (const row of entityRows) {
-        const entity: EntityResult = {
-          type: 'entity',
-          name: row.name,
-          entityType: row.entity_type,
-          observations: this.compressionEnabled 
-            ? CompressionUtils.decompressObservations(row.observations)
-            : parseObservations(row.observations)
-        };
+      for (const entity of this.toEntityResults(entityRows)) {
         entities.push(entity);
-        this.entityCache.set(row.name.toLowerCase(), entity);
+        this.entityCache.set(entity.name.toLowerCase(), entity);
       }
     }
-    
-    const foundNames = entities.map(e => e.name);
-    const relations = foundNames.length > 0 
-      ? this.getRelationsForEntities(foundNames) 
-      : [];
-    
-    return { entities, relations };
+
+    return entities;
+  }
+
+  // Attaches observations to entity rows with one query per chunk of names
+  private toEntityResults(rows: EntityRow[]): EntityResult[] {
+    const observations = new Map<string, string[]>();
+    for (const row of rows) {
+      observations.set(row.name.toLowerCase(), []);
+    }
+
+    for (let i = 0; i < rows.length; i += MemoryDatabase.IN_CLAUSE_CHUNK) {
+      const chunk = rows.slice(i, i + MemoryDatabase.IN_CLAUSE_CHUNK).map(row => row.name);
+      const placeholders = chunk.map(() => '?').join(',');
+      const observationRows = this.db.prepare(
+        `SELECT entity_name, content FROM observations WHERE entity_name IN (${placeholders}) ORDER BY id`
+      ).all(...chunk) as Pick<ObservationRow, 'entity_name' | 'content'>[];
+
+      for (const obs of observationRows) {
+        observations.get(obs.entity_name.toLowerCase())?.push(
+          CompressionUtils.decompressObservation(obs.content)
+        );
+      }
+    }
+
+    const properties = this.loadProperties(rows.map(row => row.name));
+    const aliases = this.loadAliases(rows.map(row => row.name));
+    const tags = this.loadTags(rows.map(row => row.name));
+
+    return rows.map(row => {
+      const entity: EntityResult = {
+        type: 'entity',
+        name: row.name,
+        entityType: row.entity_type,
+        observations: observations.get(row.name.toLowerCase())!
+      };
+      const entityProperties = properties.get(row.name.toLowerCase());
+      if (entityProperties) entity.properties = entityProperties;
+      const entityAliases = aliases.get(row.name.toLowerCase());
+      if (entityAliases) entity.aliases = entityAliases;
+      const entityTags = tags.get(row.name.toLowerCase());
+      if (entityTags) entity.tags = entityTags;
+      return entity;
+    });
+  }
+
+  // Aliases keyed by lowercase entity name; entities without aliases are absent
+  private loadAliases(names: string[]): Map<string, string[]> {
+    const aliases = new Map<string, string[]>();
+
+    for (let i = 0; i < names.length; i += MemoryDatabase.IN_CLAUSE_CHUNK) {
+      const chunk = names.slice(i, i + MemoryDatabase.IN_CLAUSE_CHUNK);
+      const placeholders = chunk.map(() => '?').join(',');
+      const rows = this.db.prepare(
+        `SELECT alias, entity_name FROM entity_aliases WHERE entity_name IN (${placeholders}) ORDER BY alias`
+      ).all(...chunk) as { alias: string; entity_name: string }[];
+
+      for (const row of rows) {
+        const key = row.entity_name.toLowerCase();
+        if (!aliases.has(key)) aliases.set(key, []);
+        aliases.get(key)!.push(row.alias);
+      }
+    }
+
+    return aliases;
+  }
+
+  // Tags keyed by lowercase entity name; entities without tags are absent
+  private loadTags(names: string[]): Map<string, string[]> {
+    const tags = new Map<string, string[]>();
+
+    for (let i = 0; i < names.length; i += MemoryDatabase.IN_CLAUSE_CHUNK) {
+      const chunk = names.slice(i, i + MemoryDatabase.IN_CLAUSE_CHUNK);
+      const placeholders = chunk.map(() => '?').join(',');
+      const rows = this.db.prepare(
+        `SELECT entity_name, tag FROM entity_tags WHERE entity_name IN (${placeholders}) ORDER BY tag`
+      ).all(...chunk) as { entity_name: string; tag: string }[];
+
+      for (const row of rows) {
+        const key = row.entity_name.toLowerCase();
+        if (!tags.has(key)) tags.set(key, []);
+        tags.get(key)!.push(row.tag);
+      }
+    }
+
+    return tags;
+  }
+
+  /**
+   * Entities named by aliases, keyed by lowercase alias. Entity names take
+   * precedence, so names that are not aliases, or that an entity also holds, are absent.
+   */
+  private resolveAliases(names: string[]): Map<string, AliasRow> {
+    const resolved = new Map<string, AliasRow>();
+    // Names the bloom filter has never seen are neither entities nor aliases
+    const candidates = Array.from(new Set(names.filter(name => this.entityBloom.contains(name.toLowerCase()))));
+
+    for (let i = 0; i < candidates.length; i += MemoryDatabase.IN_CLAUSE_CHUNK) {
+      const chunk = candidates.slice(i, i + MemoryDatabase.IN_CLAUSE_CHUNK);
+      const placeholders = chunk.map(() => '?').join(',');
+      const rows = this.db.prepare(`
+        SELECT a.* FROM entity_aliases a
+        WHERE a.alias IN (${placeholders})
+          AND NOT EXISTS (SELECT 1 FROM entities e WHERE e.name = a.alias)
+      `).all(...chunk) as AliasRow[];
+
+      for (const row of rows) {
+        resolved.set(row.alias.toLowerCase(), row);
+      }
+    }
+
+    return resolved;
+  }
+
+  private toProperties(rows: PropertyRow[]): Record<string, PropertyValue> {
+    const properties: Record<string, PropertyValue> = {};
+    for (const row of rows) {
+      properties[row.key] = decodePropertyValue(row.value_type, row.value_text, row.value_number);
+    }
+    return properties;
+  }
+
+  // Properties keyed by lowercase entity name; entities without properties are absent
+  private loadProperties(names: string[]): Map<string, Record<string, PropertyValue>> {
+    const rowsByEntity = new Map<string, PropertyRow[]>();
+
+    for (let i = 0; i < names.length; i += MemoryDatabase.IN_CLAUSE_CHUNK) {
+      const chunk = names.slice(i, i + MemoryDatabase.IN_CLAUSE_CHUNK);
+      const placeholders = chunk.map(() => '?').join(',');
+      const rows = this.db.prepare(
+        `SELECT * FROM entity_properties WHERE entity_name IN (${placeholders}) ORDER BY key`
+      ).all(...chunk) as PropertyRow[];
+
+      for (const row of rows) {
+        const key = row.entity_name.toLowerCase();
+        if (!rowsByEntity.has(key)) rowsByEntity.set(key, []);
+        rowsByEntity.get(key)!.push(row);
+      }
+    }
+
+    const properties = new Map<string, Record<string, PropertyValue>>();
+    for (const [key, rows] of rowsByEntity) {
+      properties.set(key, this.toProperties(rows));
+    }
+    return properties;
+  }
+
+  /**
+   * SQL conditions on entities (alias e) for property filters, ANDed together.
+   * A filter only matches properties stored with the same type as its value.
+   */
+  private propertyFilterClause(filters: PropertyFilter[]): { sql: string; params: (string | number)[] } {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    for (const filter of filters) {
+      const stored = encodePropertyValue(filter.key, filter.value);
+      const column = stored.type === 'string' ? 'value_text' : 'value_number';
+      conditions.push(
+        `EXISTS (SELECT 1 FROM entity_properties p WHERE p.entity_name = e.name AND p.key = ? ` +
+        `AND p.value_type = ? AND p.${column} ${PROPERTY_OPERATORS[filter.op]} ?)`
+      );
+      params.push(filter.key, stored.type, stored.type === 'string' ? stored.text! : stored.number!);
+    }
+
+    return { sql: conditions.join(' AND '), params };
+  }
+
+  // SQL condition on entities (alias e) for a tag filter; empty when no tags are given
+  private tagFilterClause(tags: string[], mode: TagMatchMode): { sql: string; params: string[] } {
+    const distinct = Array.from(new Map(tags.map(tag => [tag.toLowerCase(), tag])).values());
+    if (distinct.length === 0) return { sql: '', params: [] };
+
+    const placeholders = distinct.map(() => '?').join(',');
+    const sql = mode === 'any'
+      ? `EXISTS (SELECT 1 FROM entity_tags t WHERE t.entity_name = e.name AND t.tag IN (${placeholders}))`
+      : `(SELECT COUNT(*) FROM entity_tags t WHERE t.entity_name = e.name AND t.tag IN (${placeholders})) = ${distinct.length}`;
+    return { sql, params: distinct };
+  }
+
+  /**
+   * SQL conditions on entities (alias e) for the type, date and relation filters of a search,
+   * ANDed together. Relation filters only count relations that hold now.
+   */
+  private searchFilterClause(options: SearchOptions): { sql: string; params: (string | number)[] } {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    const entityTypes = Array.from(new Set(
+      (options.entityTypes ?? []).map(type => this.ontology?.normalizeEntityType(type) ?? type)
+    ));
+    if (entityTypes.length > 0) {
+      conditions.push(`e.entity_type COLLATE NOCASE IN (${entityTypes.map(() => '?').join(',')})`);
+      params.push(...entityTypes);
+    }
+
+    const ranges: [keyof SearchOptions, string][] = [
+      ['createdAfter', 'e.created_at >= ?'],
+      ['createdBefore', 'e.created_at < ?'],
+      ['updatedAfter', 'e.updated_at >= ?'],
+      ['updatedBefore', 'e.updated_at < ?']
+    ];
+    for (const [field, condition] of ranges) {
+      const value = options[field];
+      if (value === undefined) continue;
+      conditions.push(condition);
+      params.push(isoToJulian(value as string, field));
+    }
+
+    const validAt = isoToJulian(undefined, 'asOf');
+    if (options.minRelations !== undefined && options.minRelations > 0) {
+      conditions.push(
+        `(SELECT COUNT(*) FROM relations r WHERE (r.from_entity = e.name OR r.to_entity = e.name) ` +
+        `AND ${RELATION_VALID_AT}) >= ?`
+      );
+      params.push(validAt, validAt, options.minRelations);
+    }
+    if (options.hasRelationType !== undefined) {
+      conditions.push(
+        `EXISTS (SELECT 1 FROM relations r WHERE (r.from_entity = e.name OR r.to_entity = e.name) ` +
+        `AND r.relation_type = ? AND ${RELATION_VALID_AT})`
+      );
+      params.push(options.hasRelationType, validAt, validAt);
+    }
+
+    return { sql: conditions.join(' AND '), params };
+  }
+
+  // Entities carrying every given tag ('all') or any of them ('any'), by name
+  findByTags(tags: string[], mode: TagMatchMode = 'all', limit: number = -1): EntityResult[] {
+    const filter = this.tagFilterClause(tags, mode);
+    if (!filter.sql) return [];
+
+    const rows = this.db.prepare(
+      `SELECT e.* FROM entities e WHERE ${filter.sql} ORDER BY e.name LIMIT ?`
+    ).all(...filter.params, limit) as EntityRow[];
+    return this.toEntityResults(rows);
+  }
+
+  // Returns the names of the entities found; tags they already have are kept once
+  addTags(updates: TagUpdate[]): string[] {
+    if (updates.length === 0) return [];
+
+    const updated = this.operation('add_tags', () => {
+      const names: string[] = [];
+
+      for (const update of updates) {
+        const entity = this.statements.getEntity!.get(update.entityName) as EntityRow | undefined;
+        if (!entity) continue;
+
+        this.recordEntityChange('add_tags', entity.name, () => {
+          for (const tag of update.tags) {
+            this.statements.addTag!.run(entity.name, tag);
+          }
+        });
+
+        this.statements.touchEntity!.run(entity.name);
+        this.entityCache.delete(entity.name.toLowerCase());
+        names.push(entity.name);
+      }
+
+      return names;
+    });
+
+    // Tag filters are part of search results
+    this.searchCache.clear();
+    return updated;
+  }
+
+  // Returns the names of the entities found; tags the entity does not have are ignored
+  removeTags(updates: TagUpdate[]): string[] {
+    if (updates.length === 0) return [];
+
+    const updated = this.operation('remove_tags', () => {
+      const names: string[] = [];
+
+      for (const update of updates) {
+        const entity = this.statements.getEntity!.get(update.entityName) as EntityRow | undefined;
+        if (!entity) continue;
+
+        this.recordEntityChange('remove_tags', entity.name, () => {
+          for (const tag of update.tags) {
+            this.statements.deleteTag!.run(entity.name, tag);
+          }
+        });
+
+        this.statements.touchEntity!.run(entity.name);
+        this.entityCache.delete(entity.name.toLowerCase());
+        names.push(entity.name);
+      }
+
+      return names;
+    });
+
+    this.searchCache.clear();
+    return updated;
+  }
+
+  // Returns the names of entities whose properties changed; unknown entities are skipped
+  setProperties(updates: PropertyUpdate[]): string[] {
+    if (updates.length === 0) return [];
+
+    // Validate every value before writing anything
+    const encoded = updates.map(update => ({
+      entityName: update.entityName,
+      properties: Object.entries(update.properties).map(([key, value]) => ({
+        key,
+        stored: value === null ? null : encodePropertyValue(key, value)
+      }))
+    }));
+
+    const updated = this.operation('set_properties', () => {
+      const names: string[] = [];
+
+      for (const update of encoded) {
+        const entity = this.statements.getEntity!.get(update.entityName) as EntityRow | undefined;
+        if (!entity) continue;
+
+        this.recordEntityChange('set_properties', entity.name, () => {
+          for (const { key, stored } of update.properties) {
+            if (stored === null) {
+              this.statements.deleteProperty!.run(entity.name, key);
+            } else {
+              this.statements.setProperty!.run(entity.name, key, stored.type, stored.text, stored.number);
+            }
+          }
+        });
+
+        this.statements.touchEntity!.run(entity.name);
+        this.entityCache.delete(entity.name.toLowerCase());
+        names.push(entity.name);
+      }
+
+      return names;
+    });
+
+    // Property filters are part of search results
+    this.searchCache.clear();
+    return updated;
+  }
+
+  /**
+   * Adds alternate names that lookups resolve to the entity. An alias cannot be
+   * another entity's name or alias. Returns the names of the entities found.
+   */
+  addAliases(updates: AliasUpdate[]): string[] {
+    if (updates.length === 0) return [];
+
+    const updated = this.operation('add_aliases', () => {
+      const names: string[] = [];
+
+      for (const update of updates) {
+        const entity = this.statements.getEntity!.get(update.entityName) as EntityRow | undefined;
+        if (!entity) continue;
+
+        this.recordEntityChange('add_aliases', entity.name, () =>
+          this.reindexEntity(entity.name, () => {
+            for (const alias of update.aliases) {
+              const existing = this.statements.getAlias!.get(alias) as AliasRow | undefined;
+              if (existing?.entity_name.toLowerCase() === entity.name.toLowerCase()) continue;
+              const holder = existing?.entity_name ??
+                (this.statements.getEntity!.get(alias) as EntityRow | undefined)?.name;
+              if (holder) throw new AliasConflictError(alias, holder);
+
+              this.statements.addAlias!.run(alias, entity.name);
+              this.entityBloom.add(alias.toLowerCase());
+            }
+          })
+        );
+
+        this.statements.touchEntity!.run(entity.name);
+        this.entityCache.delete(entity.name.toLowerCase());
+        names.push(entity.name);
+      }
+
+      return names;
+    });
+
+    // Aliases are searchable
+    this.searchCache.clear();
+    return updated;
+  }
+
+  // Returns the names of the entities found; aliases the entity does not have are ignored
+  removeAliases(updates: AliasUpdate[]): string[] {
+    if (updates.length === 0) return [];
+
+    const updated = this.operation('remove_aliases', () => {
+      const names: string[] = [];
+
+      for (const update of updates) {
+        const entity = this.statements.getEntity!.get(update.entityName) as EntityRow | undefined;
+        if (!entity) continue;
+
+        this.recordEntityChange('remove_aliases', entity.name, () =>
+          this.reindexEntity(entity.name, () => {
+            for (const alias of update.aliases) {
+              this.statements.deleteAlias!.run(alias, entity.name);
+            }
+          })
+        );
+
+        this.statements.touchEntity!.run(entity.name);
+        this.entityCache.delete(entity.name.toLowerCase());
+        names.push(entity.name);
+      }
+
+      return names;
+    });
+
+    this.searchCache.clear();
+    return updated;
   }
 
   getStats(): DatabaseStats {
     const entityCount = (this.db.prepare('SELECT COUNT(*) as count FROM entities').get() as any).count;
     const relationCount = (this.db.prepare('SELECT COUNT(*) as count FROM relations').get() as any).count;
+    const observationCount = (this.db.prepare('SELECT COUNT(*) as count FROM observations').get() as any).count;
     
     const typeRows = this.statements.getEntityStats!.all() as Array<{ entity_type: string; count: number }>;
     const entityTypes = typeRows.reduce((acc, row) => {
@@ -575,8 +3375,10 @@ export class MemoryDatabase {
     return {
       totalEntities: entityCount,
       totalRelations: relationCount,
+      totalObservations: observationCount,
       entityTypes,
       databaseSizeKb: Math.round(dbFileSize / 1024),
+      schemaVersion: getSchemaVersion(this.db),
       cacheStats: {
         entity: this.entityCache.getStats(),
         search: this.searchCache.getStats()
@@ -631,18 +3433,12 @@ export class MemoryDatabase {
 
   // Backup operations
   backup(backupPath: string): void {
-    // Save bloom filter before backup
-    this.saveBloomFilter();
-    
     // Checkpoint WAL to ensure all changes are in main database file
     this.db.pragma('wal_checkpoint(TRUNCATE)');
     
     copyFileSync(this.dbPath, backupPath);
-    const bloomPath = this.dbPath.replace('.db', '.cbloom');
-    const backupBloomPath = backupPath.replace('.db', '.cbloom');
-    if (existsSync(bloomPath)) {
-      copyFileSync(bloomPath, backupBloomPath);
-    }
+    // Saved next to the backup only, so the live database keeps no filter file while open
+    this.saveBloomFilter(backupPath.replace('.db', '.cbloom'));
   }
 
   close(): void {
@@ -60,6 +60,17 @@ export class DuplicateEntityError extends DatabaseError {
   }
 }
 
+export class AliasConflictError extends DatabaseError {
+  public readonly alias: string;
+  public readonly entityName: string;
+  
+  constructor(alias: string, entityName: string) {
+    super(`Alias already in use: ${alias} is taken by ${entityName}`, { alias, entityName });
+    this.alias = alias;
+    this.entityName = entityName;
+  }
+}
+
 export class InvalidRelationError extends DatabaseError {
   public readonly from: string;
   public readonly to: string;
@@ -73,6 +84,31 @@ export class InvalidRelationError extends DatabaseError {
   }
 }
 
+export class MigrationError extends DatabaseError {
+  public readonly fromVersion: number;
+  public readonly toVersion: number;
+  
+  constructor(message: string, fromVersion: number, toVersion: number, context?: Record<string, any>) {
+    super(message, { ...context, fromVersion, toVersion });
+    this.fromVersion = fromVersion;
+    this.toVersion = toVersion;
+  }
+}
+
+export class UndoConflictError extends DatabaseError {
+  public readonly operationId: number;
+  public readonly entityName: string;
+  
+  constructor(operationId: number, entityName: string) {
+    super(
+      `Cannot undo operation ${operationId}: ${entityName} was changed by a later operation`,
+      { operationId, entityName }
+    );
+    this.operationId = operationId;
+    this.entityName = entityName;
+  }
+}
+
 /**
  * Transaction-related errors
  */
@@ -147,6 +183,12 @@ export class InvalidInputError extends ValidationError {
   }
 }
 
+export class OntologyViolationError extends ValidationError {
+  constructor(field: string, value: any, reason: string) {
+    super(`Ontology violation: ${reason}`, field, value);
+  }
+}
+
 /**
  * Configuration errors
  */
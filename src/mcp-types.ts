@@ -41,9 +41,31 @@ export type MCPToolName =
   | 'open_nodes'
   | 'create_relations'
   | 'delete_relations'
+  | 'close_relations'
   | 'add_observations'
   | 'delete_observations'
-  | 'delete_entities';
+  | 'get_observations'
+  | 'update_observations'
+  | 'delete_observations_by_provenance'
+  | 'get_entity_history'
+  | 'set_properties'
+  | 'add_tags'
+  | 'remove_tags'
+  | 'find_by_tags'
+  | 'add_aliases'
+  | 'remove_aliases'
+  | 'rename_entity'
+  | 'merge_entities'
+  | 'delete_entities'
+  | 'undo'
+  | 'list_trash'
+  | 'restore_trash'
+  | 'purge_trash'
+  | 'get_ontology'
+  | 'set_ontology'
+  | 'maintain_search_index'
+  | 'get_neighbors'
+  | 'find_shortest_path';
 
 /**
  * MCP Server Configuration
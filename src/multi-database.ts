@@ -5,6 +5,7 @@
 
 import { MemoryDatabase } from './database.js';
 import { ContextConfidenceScorer } from './context-confidence.js';
+import { encodeSearchCursor, decodeSearchCursor } from './utils/search-cursor.js';
 import { 
   MemoryConfig, 
   GraphResult, 
@@ -12,22 +13,51 @@ import {
   RelationResult, 
   CreateEntityInput, 
   CreateRelationInput, 
+  RelationConflictMode, 
+  RelationClosure, 
   ObservationUpdate, 
   ObservationDeletion, 
+  ObservationEdit, 
+  ObservationRecord, 
+  ObservationFilter, 
+  HistoryEntry, 
+  HistoryOptions, 
+  TrashItem, 
+  TrashPurgeOptions, 
+  UndoneOperation, 
+  MergeResult, 
+  PropertyUpdate, 
+  PropertyFilter, 
+  Ontology, 
+  AliasUpdate, 
+  TagUpdate, 
+  TagMatchMode, 
   SearchOptions, 
+  SearchIndexAction, 
+  SearchIndexReport, 
   GetNeighborsOptions, 
   FindShortestPathOptions, 
   ShortestPathResult 
 } from './types.js';
-import { existsSync, mkdirSync, copyFileSync, statSync } from 'fs';
+import { existsSync, mkdirSync, copyFileSync, statSync, rmSync } from 'fs';
 import { join, dirname } from 'path';
 import { config as appConfig } from './config.js';
 import { logInfo } from './utils/logger.js';
+import { EntityNotFoundError } from './errors.js';
+import { 
+  breadthFirstTraversal, 
+  bidirectionalShortestPath, 
+  dijkstraShortestPath, 
+  edgeCost, 
+  EdgeExpander 
+} from './utils/graph-traversal.js';
 
 export class MultiDatabaseManager {
   private databases: Map<string, MemoryDatabase> = new Map();
   private _currentContext: string;
   private entityContextMap: Map<string, string> = new Map();
+  // Contexts in which each tag (lowercase) has been used
+  private tagContextMap: Map<string, Set<string>> = new Map();
   private confidenceScorer!: ContextConfidenceScorer;
   private config!: MemoryConfig;
 
@@ -59,7 +89,8 @@ export class MultiDatabaseManager {
     
     this.confidenceScorer = new ContextConfidenceScorer(
       scorerConfigs,
-      this.entityContextMap
+      this.entityContextMap,
+      this.tagContextMap
     );
   }
 
@@ -98,11 +129,37 @@ export class MultiDatabaseManager {
 
   private loadEntityMappings(): void {
     this.entityContextMap.clear();
+    this.tagContextMap.clear();
     for (const [context, db] of this.databases) {
       const graph = db.readGraph();
       for (const entity of graph.entities) {
         this.entityContextMap.set(entity.name.toLowerCase(), context);
+        for (const alias of entity.aliases ?? []) {
+          this.entityContextMap.set(alias.toLowerCase(), context);
+        }
+        this.recordTagContext(entity.tags ?? [], context);
+      }
+    }
+  }
+
+  private recordTagContext(tags: string[], context: string): void {
+    for (const tag of tags) {
+      const key = tag.toLowerCase();
+      if (!this.tagContextMap.has(key)) {
+        this.tagContextMap.set(key, new Set());
       }
+      this.tagContextMap.get(key)!.add(context);
+    }
+  }
+
+  // Drops a context from the tags no entity in it carries any more
+  private forgetTagContext(tags: string[], context: string, db: MemoryDatabase): void {
+    for (const tag of tags) {
+      const key = tag.toLowerCase();
+      const contexts = this.tagContextMap.get(key);
+      if (!contexts?.has(context) || db.findByTags([tag], 'any', 1).length > 0) continue;
+      contexts.delete(context);
+      if (contexts.size === 0) this.tagContextMap.delete(key);
     }
   }
 
@@ -129,6 +186,7 @@ export class MultiDatabaseManager {
         entities: stats.totalEntities,
         relations: stats.totalRelations,
         sizeKb: stats.databaseSizeKb,
+        schemaVersion: stats.schemaVersion,
       };
     }
 
@@ -155,49 +213,155 @@ export class MultiDatabaseManager {
     const created = db.createEntities(entities);
     for (const entity of created) {
       this.entityContextMap.set(entity.name.toLowerCase(), targetContext);
+      this.recordTagContext(entity.tags ?? [], targetContext);
     }
     return created.map(e => ({ ...e, _context: targetContext }));
   }
 
-  public createRelations(relations: CreateRelationInput[], context?: string): RelationResult[] {
+  public createRelations(
+    relations: CreateRelationInput[],
+    context?: string,
+    onConflict: RelationConflictMode = 'ignore'
+  ): RelationResult[] {
     const detection = context ? { context, confidence: 1.0 } : this.detectContext({ relations });
     const targetContext = detection.context;
     const db = this.databases.get(targetContext);
     if (!db) throw new Error(`Invalid context: ${targetContext}`);
     
-    const created = db.createRelations(relations);
+    const created = db.createRelations(relations, onConflict);
     return created.map(r => ({ ...r, _context: targetContext }));
   }
 
+  /**
+   * Searches one context, or all of them as a single ranking. Each context returns
+   * its next `limit` hits; the page takes the best-scored head of any context in turn,
+   * so a context's hits keep their order and the cursor only has to count them.
+   */
   public searchNodes(options: SearchOptions): GraphResult {
-    if (options.context) {
-      const db = this.databases.get(options.context);
-      if (!db) throw new Error(`Invalid context: ${options.context}`);
-      const results = db.searchNodes(options);
+    if (options.context && !this.databases.has(options.context)) {
+      throw new Error(`Invalid context: ${options.context}`);
+    }
+    const boost = this.searchBoost(options);
+    // The boosted context goes first, so it also wins ties such as substring matches
+    const contexts = options.context
+      ? [options.context]
+      : Array.from(this.databases.keys()).sort((a, b) => Number(b === boost?.context) - Number(a === boost?.context));
+    const limit = options.limit ?? 20;
+    const offsets = decodeSearchCursor(options);
+
+    const searched = contexts.map(context => ({
+      context,
+      offset: offsets[context] ?? 0,
+      graph: this.databases.get(context)!.searchNodes({ ...options, limit, offset: offsets[context] ?? 0 })
+    }));
+
+    // Scaling by a constant per context keeps each context's order, and with it the cursor offsets
+    const factors = contexts.length > 1 ? this.searchScoreFactors(options, contexts) : new Map<string, number>();
+    const results = searched.map(({ context, offset, graph }) => {
+      const factor = (factors.get(context) ?? 1) * (context === boost?.context ? boost.factor : 1);
       return {
-        entities: results.entities.map(e => ({ ...e, _context: options.context })),
-        relations: results.relations.map(r => ({ ...r, _context: options.context }))
+        context,
+        offset,
+        graph: factor === 1 ? graph : {
+          ...graph,
+          entities: graph.entities.map(e => e.match ? { ...e, match: { ...e.match, score: e.match.score * factor } } : e)
+        }
       };
+    });
+
+    const score = (entity: EntityResult) => entity.match?.score ?? 0;
+    const taken = results.map(() => 0);
+    const entities: EntityResult[] = [];
+    while (entities.length < limit) {
+      let best = -1;
+      results.forEach(({ graph }, i) => {
+        const head = graph.entities[taken[i]];
+        if (head && (best < 0 || score(head) > score(results[best].graph.entities[taken[best]]))) {
+          best = i;
+        }
+      });
+      if (best < 0) break;
+      entities.push({ ...results[best].graph.entities[taken[best]], _context: results[best].context });
+      taken[best]++;
     }
-    
-    // Search across all contexts
-    const allEntities: EntityResult[] = [];
-    const allRelations: RelationResult[] = [];
-    
-    for (const [context, db] of this.databases) {
-      const results = db.searchNodes(options);
-      allEntities.push(...results.entities.map(e => ({ ...e, _context: context })));
-      allRelations.push(...results.relations.map(r => ({ ...r, _context: context })));
+
+    // Only relations of the entities that made it onto the page
+    const relations: RelationResult[] = [];
+    results.forEach(({ context, graph }, i) => {
+      const names = new Set(graph.entities.slice(0, taken[i]).map(e => e.name.toLowerCase()));
+      relations.push(...graph.relations
+        .filter(r => names.has(r.from.toLowerCase()) || names.has(r.to.toLowerCase()))
+        .map(r => ({ ...r, _context: context })));
+    });
+
+    const nextOffsets = Object.fromEntries(results.map(({ context, offset }, i) => [context, offset + taken[i]]));
+    const total = results.reduce((sum, { graph }) => sum + (graph.page?.total ?? 0), 0);
+    const returned = Object.values(nextOffsets).reduce((sum, offset) => sum + offset, 0);
+    const hasMore = returned < total;
+
+    return {
+      entities,
+      relations,
+      page: {
+        total,
+        limit,
+        hasMore,
+        ...(hasMore && { nextCursor: encodeSearchCursor(options, nextOffsets) })
+      }
+    };
+  }
+
+  /**
+   * bm25 weighs a query by how rare its matches are in each database (IDF), so the
+   * same hit scores differently in a small and a large context. Rescales every
+   * context to the IDF of all searched contexts together. The query is treated as a
+   * whole, which is exact for single-term queries and close for the others.
+   */
+  private searchScoreFactors(options: SearchOptions, contexts: string[]): Map<string, number> {
+    if (options.asOf !== undefined) return new Map();
+
+    const idf = (documents: number, matching: number) =>
+      // FTS5 floors the IDF of terms in more than half of the documents the same way
+      Math.max(Math.log((documents - matching + 0.5) / (matching + 0.5)), 1e-6);
+
+    const frequencies = contexts.map(context => ({
+      context,
+      ...this.databases.get(context)!.searchFrequency(options.query, options.queryMode)
+    }));
+    const global = idf(
+      frequencies.reduce((sum, f) => sum + f.documents, 0),
+      frequencies.reduce((sum, f) => sum + f.matching, 0)
+    );
+    return new Map(frequencies.map(f => [f.context, global / idf(f.documents, f.matching)]));
+  }
+
+  // The context a search across all contexts boosts, and by how much
+  private searchBoost(options: SearchOptions): { context: string; factor: number } | null {
+    if (options.context || !options.boostContext || options.boostContext === 'none') return null;
+
+    const factor = options.boostFactor ?? 1.5;
+    if (options.boostContext === 'current') {
+      return { context: this._currentContext, factor };
     }
-    
-    return { entities: allEntities, relations: allRelations };
+    // A predicted context is only boosted as far as the scorer is confident in it
+    const detection = this.detectContext({
+      query: options.query,
+      entities: options.tags && options.tags.length > 0 ? [{ tags: options.tags }] : undefined
+    });
+    return { context: detection.context, factor: 1 + (factor - 1) * detection.confidence };
   }
 
-  public readGraph(limit?: number, offset: number = 0, context?: string): GraphResult {
+  public readGraph(
+    limit?: number,
+    offset: number = 0,
+    context?: string,
+    propertyFilters: PropertyFilter[] = [],
+    asOf?: string
+  ): GraphResult {
     if (context) {
       const db = this.databases.get(context);
       if (!db) throw new Error(`Invalid context: ${context}`);
-      const graph = db.readGraph(limit, offset);
+      const graph = db.readGraph(limit, offset, propertyFilters, asOf);
       return {
         entities: graph.entities.map(e => ({ ...e, _context: context })),
         relations: graph.relations.map(r => ({ ...r, _context: context })),
@@ -208,7 +372,7 @@ export class MultiDatabaseManager {
     // Read from current context
     const db = this.databases.get(this._currentContext);
     if (!db) throw new Error(`Invalid current context: ${this._currentContext}`);
-    const graph = db.readGraph(limit, offset);
+    const graph = db.readGraph(limit, offset, propertyFilters, asOf);
     return {
       entities: graph.entities.map(e => ({ ...e, _context: this._currentContext })),
       relations: graph.relations.map(r => ({ ...r, _context: this._currentContext })),
@@ -216,11 +380,16 @@ export class MultiDatabaseManager {
     };
   }
 
-  public openNodes(names: string[], context?: string): GraphResult {
+  public openNodes(
+    names: string[],
+    context?: string,
+    includeProvenance: boolean = false,
+    asOf?: string
+  ): GraphResult {
     if (context) {
       const db = this.databases.get(context);
       if (!db) throw new Error(`Invalid context: ${context}`);
-      const results = db.openNodes(names);
+      const results = db.openNodes(names, includeProvenance, asOf);
       return {
         entities: results.entities.map(e => ({ ...e, _context: context })),
         relations: results.relations.map(r => ({ ...r, _context: context }))
@@ -235,10 +404,11 @@ export class MultiDatabaseManager {
       const remaining = names.filter(name => !entityNamesFound.has(name.toLowerCase()));
       if (remaining.length === 0) break;
       
-      const results = db.openNodes(remaining);
+      const results = db.openNodes(remaining, includeProvenance, asOf);
       for (const entity of results.entities) {
         allEntities.push({ ...entity, _context: ctx });
         entityNamesFound.add(entity.name.toLowerCase());
+        if (entity.matchedAlias) entityNamesFound.add(entity.matchedAlias.toLowerCase());
       }
     }
     
@@ -248,7 +418,7 @@ export class MultiDatabaseManager {
     
     if (foundNames.length > 0) {
       for (const [ctx, db] of this.databases) {
-        const relations = db.getRelationsForEntities(foundNames);
+        const relations = db.getRelationsForEntities(foundNames, asOf);
         allRelations.push(...relations.map(r => ({ ...r, _context: ctx })));
       }
     }
@@ -256,60 +426,256 @@ export class MultiDatabaseManager {
     return { entities: allEntities, relations: allRelations };
   }
 
-  public addObservations(updates: ObservationUpdate[], context?: string): void {
+  // Groups per-entity items by the context that holds each entity
+  private groupByEntityContext<T extends { entityName: string }>(items: T[]): Map<string, T[]> {
+    const itemsByContext = new Map<string, T[]>();
+    
+    for (const item of items) {
+      const entityContext = this.entityContextMap.get(item.entityName.toLowerCase()) || this._currentContext;
+      if (!itemsByContext.has(entityContext)) {
+        itemsByContext.set(entityContext, []);
+      }
+      itemsByContext.get(entityContext)!.push(item);
+    }
+    
+    return itemsByContext;
+  }
+
+  public addObservations(updates: ObservationUpdate[], context?: string): ObservationRecord[] {
     if (context) {
       const db = this.databases.get(context);
       if (!db) throw new Error(`Invalid context: ${context}`);
-      db.addObservations(updates);
-      return;
+      return db.addObservations(updates).map(o => ({ ...o, _context: context }));
     }
     
-    // Group updates by entity context
-    const updatesByContext = new Map<string, ObservationUpdate[]>();
-    
-    for (const update of updates) {
-      const entityContext = this.entityContextMap.get(update.entityName.toLowerCase()) || this._currentContext;
-      if (!updatesByContext.has(entityContext)) {
-        updatesByContext.set(entityContext, []);
+    // Apply updates to the databases holding each entity
+    const added: ObservationRecord[] = [];
+    for (const [ctx, contextUpdates] of this.groupByEntityContext(updates)) {
+      const db = this.databases.get(ctx);
+      if (db) {
+        added.push(...db.addObservations(contextUpdates).map(o => ({ ...o, _context: ctx })));
       }
-      updatesByContext.get(entityContext)!.push(update);
+    }
+    return added;
+  }
+
+  public deleteObservations(deletions: ObservationDeletion[], context?: string): number {
+    if (context) {
+      const db = this.databases.get(context);
+      if (!db) throw new Error(`Invalid context: ${context}`);
+      return db.deleteObservations(deletions);
     }
     
-    // Apply updates to respective databases
-    for (const [ctx, contextUpdates] of updatesByContext) {
+    // Apply deletions to the databases holding each entity
+    let deleted = 0;
+    for (const [ctx, contextDeletions] of this.groupByEntityContext(deletions)) {
       const db = this.databases.get(ctx);
       if (db) {
-        db.addObservations(contextUpdates);
+        deleted += db.deleteObservations(contextDeletions);
       }
     }
+    return deleted;
+  }
+
+  public getObservations(entityName: string, context?: string): ObservationRecord[] {
+    const targetContext = context || this.entityContextMap.get(entityName.toLowerCase()) || this._currentContext;
+    const db = this.databases.get(targetContext);
+    if (!db) throw new Error(`Invalid context: ${targetContext}`);
+    return db.getObservations(entityName).map(o => ({ ...o, _context: targetContext }));
+  }
+
+  public findObservations(filter: ObservationFilter, context?: string): ObservationRecord[] {
+    const targetContext = context ||
+      (filter.entityName ? this.entityContextMap.get(filter.entityName.toLowerCase()) || this._currentContext : undefined);
+    if (targetContext) {
+      const db = this.databases.get(targetContext);
+      if (!db) throw new Error(`Invalid context: ${targetContext}`);
+      return db.findObservations(filter).map(o => ({ ...o, _context: targetContext }));
+    }
+    
+    // Provenance queries span every context a session may have written to
+    const found: ObservationRecord[] = [];
+    for (const [ctx, db] of this.databases) {
+      found.push(...db.findObservations(filter).map(o => ({ ...o, _context: ctx })));
+    }
+    return filter.limit !== undefined ? found.slice(0, filter.limit) : found;
   }
 
-  public deleteObservations(deletions: ObservationDeletion[], context?: string): void {
+  public deleteObservationsByProvenance(filter: ObservationFilter, context?: string): Record<string, number> {
+    const results: Record<string, number> = {};
+    
     if (context) {
       const db = this.databases.get(context);
       if (!db) throw new Error(`Invalid context: ${context}`);
-      db.deleteObservations(deletions);
-      return;
+      results[context] = db.deleteObservationsByProvenance(filter);
+      return results;
+    }
+    
+    for (const [ctx, db] of this.databases) {
+      results[ctx] = db.deleteObservationsByProvenance(filter);
+    }
+    return results;
+  }
+
+  public getEntityHistory(entityName: string, options: HistoryOptions = {}, context?: string): HistoryEntry[] {
+    if (context) {
+      const db = this.databases.get(context);
+      if (!db) throw new Error(`Invalid context: ${context}`);
+      return db.getEntityHistory(entityName, options).map(e => ({ ...e, _context: context }));
     }
     
-    // Group deletions by entity context
-    const deletionsByContext = new Map<string, ObservationDeletion[]>();
+    // Deleted entities are no longer mapped to a context, so every context is read
+    const history: HistoryEntry[] = [];
+    for (const [ctx, db] of this.databases) {
+      history.push(...db.getEntityHistory(entityName, options).map(e => ({ ...e, _context: ctx })));
+    }
+    history.sort((a, b) => b.changedAt.localeCompare(a.changedAt));
+    return options.limit !== undefined ? history.slice(0, options.limit) : history;
+  }
+
+  public updateObservations(edits: ObservationEdit[], context?: string): ObservationRecord[] {
+    if (context) {
+      const db = this.databases.get(context);
+      if (!db) throw new Error(`Invalid context: ${context}`);
+      return db.updateObservations(edits).map(o => ({ ...o, _context: context }));
+    }
     
-    for (const deletion of deletions) {
-      const entityContext = this.entityContextMap.get(deletion.entityName.toLowerCase()) || this._currentContext;
-      if (!deletionsByContext.has(entityContext)) {
-        deletionsByContext.set(entityContext, []);
+    const updated: ObservationRecord[] = [];
+    for (const [ctx, contextEdits] of this.groupByEntityContext(edits)) {
+      const db = this.databases.get(ctx);
+      if (db) {
+        updated.push(...db.updateObservations(contextEdits).map(o => ({ ...o, _context: ctx })));
       }
-      deletionsByContext.get(entityContext)!.push(deletion);
+    }
+    return updated;
+  }
+
+  public setProperties(updates: PropertyUpdate[], context?: string): string[] {
+    if (context) {
+      const db = this.databases.get(context);
+      if (!db) throw new Error(`Invalid context: ${context}`);
+      return db.setProperties(updates);
     }
     
-    // Apply deletions to respective databases
-    for (const [ctx, contextDeletions] of deletionsByContext) {
+    const updated: string[] = [];
+    for (const [ctx, contextUpdates] of this.groupByEntityContext(updates)) {
       const db = this.databases.get(ctx);
       if (db) {
-        db.deleteObservations(contextDeletions);
+        updated.push(...db.setProperties(contextUpdates));
       }
     }
+    return updated;
+  }
+
+  public addAliases(updates: AliasUpdate[], context?: string): string[] {
+    const updatesByContext = context ? new Map([[context, updates]]) : this.groupByEntityContext(updates);
+    
+    const updated: string[] = [];
+    for (const [ctx, contextUpdates] of updatesByContext) {
+      const db = this.databases.get(ctx);
+      if (!db) throw new Error(`Invalid context: ${ctx}`);
+      const names = db.addAliases(contextUpdates);
+      for (const update of contextUpdates) {
+        if (!names.some(name => name.toLowerCase() === update.entityName.toLowerCase())) continue;
+        for (const alias of update.aliases) {
+          this.entityContextMap.set(alias.toLowerCase(), ctx);
+        }
+      }
+      updated.push(...names);
+    }
+    return updated;
+  }
+
+  public removeAliases(updates: AliasUpdate[], context?: string): string[] {
+    const updatesByContext = context ? new Map([[context, updates]]) : this.groupByEntityContext(updates);
+    
+    const updated: string[] = [];
+    for (const [ctx, contextUpdates] of updatesByContext) {
+      const db = this.databases.get(ctx);
+      if (!db) throw new Error(`Invalid context: ${ctx}`);
+      const names = db.removeAliases(contextUpdates);
+      for (const update of contextUpdates) {
+        if (!names.some(name => name.toLowerCase() === update.entityName.toLowerCase())) continue;
+        for (const alias of update.aliases) {
+          this.entityContextMap.delete(alias.toLowerCase());
+        }
+      }
+      updated.push(...names);
+    }
+    return updated;
+  }
+
+  public addTags(updates: TagUpdate[], context?: string): string[] {
+    const updatesByContext = context ? new Map([[context, updates]]) : this.groupByEntityContext(updates);
+    
+    const updated: string[] = [];
+    for (const [ctx, contextUpdates] of updatesByContext) {
+      const db = this.databases.get(ctx);
+      if (!db) throw new Error(`Invalid context: ${ctx}`);
+      const names = new Set(db.addTags(contextUpdates).map(name => name.toLowerCase()));
+      for (const update of contextUpdates) {
+        if (names.has(update.entityName.toLowerCase())) {
+          this.recordTagContext(update.tags, ctx);
+          updated.push(update.entityName);
+        }
+      }
+    }
+    return updated;
+  }
+
+  public removeTags(updates: TagUpdate[], context?: string): string[] {
+    const updatesByContext = context ? new Map([[context, updates]]) : this.groupByEntityContext(updates);
+    
+    const updated: string[] = [];
+    for (const [ctx, contextUpdates] of updatesByContext) {
+      const db = this.databases.get(ctx);
+      if (!db) throw new Error(`Invalid context: ${ctx}`);
+      const names = db.removeTags(contextUpdates);
+      if (names.length > 0) {
+        this.forgetTagContext(contextUpdates.flatMap(update => update.tags), ctx, db);
+      }
+      updated.push(...names);
+    }
+    return updated;
+  }
+
+  public findByTags(tags: string[], mode: TagMatchMode = 'all', limit?: number, context?: string): EntityResult[] {
+    if (context) {
+      const db = this.databases.get(context);
+      if (!db) throw new Error(`Invalid context: ${context}`);
+      return db.findByTags(tags, mode, limit).map(e => ({ ...e, _context: context }));
+    }
+    
+    const entities: EntityResult[] = [];
+    for (const [ctx, db] of this.databases) {
+      entities.push(...db.findByTags(tags, mode, limit).map(e => ({ ...e, _context: ctx })));
+    }
+    return limit === undefined ? entities : entities.slice(0, limit);
+  }
+
+  public renameEntity(oldName: string, newName: string, context?: string): EntityResult {
+    const targetContext = context || this.entityContextMap.get(oldName.toLowerCase()) || this._currentContext;
+    const db = this.databases.get(targetContext);
+    if (!db) throw new Error(`Invalid context: ${targetContext}`);
+    
+    const renamed = db.renameEntity(oldName, newName);
+    this.entityContextMap.delete(oldName.toLowerCase());
+    this.entityContextMap.set(renamed.name.toLowerCase(), targetContext);
+    return { ...renamed, _context: targetContext };
+  }
+
+  // Sources must live in the target's context
+  public mergeEntities(targetName: string, sourceNames: string[], context?: string): MergeResult {
+    const targetContext = context || this.entityContextMap.get(targetName.toLowerCase()) || this._currentContext;
+    const db = this.databases.get(targetContext);
+    if (!db) throw new Error(`Invalid context: ${targetContext}`);
+    
+    const result = db.mergeEntities(targetName, sourceNames);
+    // Merged names live on as aliases of the target
+    for (const name of result.merged) {
+      this.entityContextMap.set(name.toLowerCase(), targetContext);
+    }
+    return { ...result, entity: { ...result.entity, _context: targetContext }, _context: targetContext };
   }
 
   public deleteEntities(entityNames: string[], context?: string): void {
@@ -345,6 +711,84 @@ export class MultiDatabaseManager {
     }
   }
 
+  public listTrash(limit?: number, context?: string): TrashItem[] {
+    if (context) {
+      const db = this.databases.get(context);
+      if (!db) throw new Error(`Invalid context: ${context}`);
+      return db.listTrash(limit).map(item => ({ ...item, _context: context }));
+    }
+    
+    const items: TrashItem[] = [];
+    for (const [ctx, db] of this.databases) {
+      items.push(...db.listTrash(limit).map(item => ({ ...item, _context: ctx })));
+    }
+    items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+    return limit !== undefined ? items.slice(0, limit) : items;
+  }
+
+  public restoreTrash(entityNames: string[], context?: string): TrashItem[] {
+    const restored: TrashItem[] = [];
+    const contexts = context ? [context] : Array.from(this.databases.keys());
+    let remaining = entityNames;
+    
+    // Without a context each name is restored from the first context that has it in the trash
+    for (const ctx of contexts) {
+      const db = this.databases.get(ctx);
+      if (!db) throw new Error(`Invalid context: ${ctx}`);
+      if (remaining.length === 0) break;
+      
+      const items = db.restoreTrash(remaining);
+      for (const item of items) {
+        this.entityContextMap.set(item.entity.name.toLowerCase(), ctx);
+        restored.push({ ...item, _context: ctx });
+      }
+      const restoredNames = new Set(items.map(item => item.entity.name.toLowerCase()));
+      remaining = remaining.filter(name => !restoredNames.has(name.toLowerCase()));
+    }
+    return restored;
+  }
+
+  public purgeTrash(options: TrashPurgeOptions = {}, context?: string): Record<string, number> {
+    const results: Record<string, number> = {};
+    
+    if (context) {
+      const db = this.databases.get(context);
+      if (!db) throw new Error(`Invalid context: ${context}`);
+      results[context] = db.purgeTrash(options);
+      return results;
+    }
+    
+    for (const [ctx, db] of this.databases) {
+      results[ctx] = db.purgeTrash(options);
+    }
+    return results;
+  }
+
+  public undo(count: number = 1, context?: string): UndoneOperation[] {
+    const targetContext = context || this._currentContext;
+    const db = this.databases.get(targetContext);
+    if (!db) throw new Error(`Invalid context: ${targetContext}`);
+    
+    const undone = db.undo(count);
+    if (undone.length === 0) return [];
+
+    // Undone aliases, merges and renames can take away names the operations do not list
+    for (const [key, ctx] of this.entityContextMap) {
+      if (ctx === targetContext && !db.getEntity(key)) this.entityContextMap.delete(key);
+    }
+    for (const operation of undone) {
+      for (const name of operation.entities) {
+        const entity = db.getEntity(name);
+        if (!entity) continue;
+        this.entityContextMap.set(entity.name.toLowerCase(), targetContext);
+        for (const alias of entity.aliases ?? []) {
+          this.entityContextMap.set(alias.toLowerCase(), targetContext);
+        }
+      }
+    }
+    return undone.map(operation => ({ ...operation, _context: targetContext }));
+  }
+
   public deleteRelations(relations: CreateRelationInput[], context?: string): void {
     const targetContext = context || this.detectContext({ relations }).context;
     const db = this.databases.get(targetContext);
@@ -353,6 +797,15 @@ export class MultiDatabaseManager {
     db.deleteRelations(relations);
   }
 
+  public closeRelations(closures: RelationClosure[], context?: string): RelationResult[] {
+    const targetContext = context || this.detectContext({ relations: closures }).context;
+    const db = this.databases.get(targetContext);
+    if (!db) throw new Error(`Invalid context: ${targetContext}`);
+    
+    const closed = db.closeRelations(closures);
+    return closed.map(r => ({ ...r, _context: targetContext }));
+  }
+
   public getStats(context?: string): any {
     if (context) {
       const db = this.databases.get(context);
@@ -377,6 +830,34 @@ export class MultiDatabaseManager {
     return allStats;
   }
 
+  public getOntology(context?: string): Ontology | null {
+    const targetContext = context || this._currentContext;
+    const db = this.databases.get(targetContext);
+    if (!db) throw new Error(`Invalid context: ${targetContext}`);
+    return db.getOntology();
+  }
+
+  public setOntology(ontology: Ontology | null, context?: string): void {
+    const targetContext = context || this._currentContext;
+    const db = this.databases.get(targetContext);
+    if (!db) throw new Error(`Invalid context: ${targetContext}`);
+    db.setOntology(ontology);
+  }
+
+  public maintainSearchIndex(action: SearchIndexAction, context?: string): Record<string, SearchIndexReport> {
+    if (context) {
+      const db = this.databases.get(context);
+      if (!db) throw new Error(`Invalid context: ${context}`);
+      return { [context]: db.maintainSearchIndex(action) };
+    }
+    
+    const reports: Record<string, SearchIndexReport> = {};
+    for (const [ctx, db] of this.databases) {
+      reports[ctx] = db.maintainSearchIndex(action);
+    }
+    return reports;
+  }
+
   public beginTransaction(name?: string): string {
     // Transactions are context-specific
     const transactionId = `txn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -455,6 +936,9 @@ export class MultiDatabaseManager {
     const targetBloomPath = dbConfig.path.replace('.db', '.cbloom');
     if (existsSync(backupBloomPath)) {
       copyFileSync(backupBloomPath, targetBloomPath);
+    } else {
+      // The filter of the replaced database would not match the restored one
+      rmSync(targetBloomPath, { force: true });
     }
     
     // Reinitialize database
@@ -481,28 +965,154 @@ export class MultiDatabaseManager {
   }
 
   public getNeighbors(entityName: string, options: GetNeighborsOptions): GraphResult {
-    const targetContext = options.context || this.entityContextMap.get(entityName.toLowerCase()) || this._currentContext;
+    if (!options.context && options.crossContext === true) {
+      return this.getNeighborsAcrossContexts(entityName, options);
+    }
+
+    const targetContext = options.context || this.traversalContext(entityName, options.asOf) || this._currentContext;
     const db = this.databases.get(targetContext);
     if (!db) throw new Error(`Invalid context: ${targetContext}`);
 
-    // For now, return empty result as this would require implementing graph traversal
-    return { entities: [], relations: [] };
+    const result = db.getNeighbors(entityName, options);
+    return {
+      entities: result.entities.map(e => ({ ...e, _context: targetContext })),
+      relations: result.relations.map(r => ({ ...r, _context: targetContext }))
+    };
   }
 
   public findShortestPath(from: string, to: string, options: FindShortestPathOptions): ShortestPathResult {
-    const fromContext = this.entityContextMap.get(from.toLowerCase());
-    const toContext = this.entityContextMap.get(to.toLowerCase());
-    
-    if (fromContext !== toContext) {
-      return { found: false, path: [], distance: -1 };
+    if (!options.context && options.crossContext === true) {
+      return this.findShortestPathAcrossContexts(from, to, options);
+    }
+
+    let targetContext = options.context;
+    if (!targetContext) {
+      // The map holds one context per name, so only an inferred context is checked against both ends
+      const fromContext = this.traversalContext(from, options.asOf);
+      const toContext = this.traversalContext(to, options.asOf);
+      if (fromContext !== toContext) {
+        return { found: false, path: [], relations: [], distance: -1 };
+      }
+      targetContext = fromContext || this._currentContext;
     }
-    
-    const targetContext = options.context || fromContext || this._currentContext;
     const db = this.databases.get(targetContext);
     if (!db) throw new Error(`Invalid context: ${targetContext}`);
     
-    // For now, return not found as this would require implementing graph algorithms
-    return { found: false, path: [], distance: -1 };
+    const result = db.findShortestPath(from, to, options);
+    return {
+      ...result,
+      relations: result.relations.map(r => ({ ...r, _context: targetContext }))
+    };
+  }
+
+  /**
+   * Context of an entity a traversal starts or ends at. With asOf, an entity
+   * deleted since is looked up in the history of each context.
+   */
+  private traversalContext(name: string, asOf?: string): string | undefined {
+    const context = this.entityContextMap.get(name.toLowerCase());
+    if (context || asOf === undefined) return context;
+
+    for (const [ctx, db] of this.databases) {
+      if (db.getEntities([name], asOf).length > 0) return ctx;
+    }
+    return undefined;
+  }
+
+  // Start or end of a cross-context traversal, as of asOf when given
+  private traversalEntity(name: string, asOf?: string): EntityResult | null {
+    if (asOf === undefined) return this.getEntity(name);
+
+    for (const db of this.databases.values()) {
+      const [entity] = db.getEntities([name], asOf);
+      if (entity) return entity;
+    }
+    return null;
+  }
+
+  /**
+   * Expands a node in every context that holds an entity with that name,
+   * so an entity present in both personal and work bridges the two graphs
+   */
+  private crossContextExpander(relationType?: string, asOf?: string): EdgeExpander<RelationResult> {
+    return (node, direction) => {
+      const edges: RelationResult[] = [];
+      for (const [ctx, db] of this.databases) {
+        for (const relation of db.getAdjacentRelations(node, direction, relationType, asOf)) {
+          edges.push({ ...relation, _context: ctx });
+        }
+      }
+      return edges;
+    };
+  }
+
+  private getNeighborsAcrossContexts(entityName: string, options: GetNeighborsOptions): GraphResult {
+    const start = this.traversalEntity(entityName, options.asOf);
+    if (!start) throw new EntityNotFoundError(entityName);
+
+    const traversal = breadthFirstTraversal(
+      start.name,
+      options.depth,
+      options.direction,
+      this.crossContextExpander(options.relationType, options.asOf)
+    );
+
+    const neighborNames: string[] = [];
+    for (const [key, name] of traversal.names) {
+      if (traversal.distances.get(key)! > 0) neighborNames.push(name);
+    }
+
+    // A name shared by several contexts is returned once per context
+    const entities: EntityResult[] = [];
+    for (const [ctx, db] of this.databases) {
+      for (const entity of db.getEntities(neighborNames, options.asOf)) {
+        entities.push({
+          ...entity,
+          _context: ctx,
+          _distance: traversal.distances.get(entity.name.toLowerCase())
+        });
+      }
+    }
+    entities.sort((a, b) => a._distance! - b._distance! || a.name.localeCompare(b.name));
+
+    return {
+      entities,
+      relations: options.includeRelations ? traversal.edges : []
+    };
+  }
+
+  private findShortestPathAcrossContexts(
+    from: string, 
+    to: string, 
+    options: FindShortestPathOptions
+  ): ShortestPathResult {
+    const source = this.traversalEntity(from, options.asOf);
+    if (!source) throw new EntityNotFoundError(from);
+    const target = this.traversalEntity(to, options.asOf);
+    if (!target) throw new EntityNotFoundError(to);
+
+    const direction = options.bidirectional ? 'both' : 'outgoing';
+    const expand = this.crossContextExpander(options.relationType, options.asOf);
+
+    const path = options.weighted
+      ? dijkstraShortestPath(
+          source.name,
+          target.name,
+          options.maxDepth,
+          direction,
+          expand,
+          edge => edgeCost(edge, options.relationWeights)
+        )
+      : bidirectionalShortestPath(source.name, target.name, options.maxDepth, direction, expand);
+
+    return {
+      found: path.found,
+      path: path.nodes,
+      relations: path.edges,
+      distance: path.found ? path.edges.length : -1,
+      cost: options.weighted && path.found ? path.cost : undefined,
+      nodesExplored: path.nodesExplored
+    };
   }
 
   public getEntity(name: string, context?: string): EntityResult | null {
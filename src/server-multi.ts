@@ -13,6 +13,7 @@ import { getAllToolDefinitions } from './tool-definitions.js';
 import { stringifyGeneric } from './utils/fast-json.js';
 import { logger, logError, logInfo } from './utils/logger.js';
 import { config } from './config.js';
+import { ValidationError } from './errors.js';
 
 export async function main() {
   logInfo('Starting Mem100x Multi-Context MCP server...');
@@ -66,6 +67,9 @@ export async function main() {
         const issues = zodError.issues.map((issue: any) => `${issue.path.join('.')}: ${issue.message}`).join(', ');
         throw new McpError(ErrorCode.InvalidParams, `Invalid parameters for ${name}: ${issues}`);
       }
+      if (error instanceof ValidationError) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid parameters for ${name}: ${error.message}`);
+      }
       logError(`Error executing tool: ${name}`, error as Error, { args });
       throw new McpError(ErrorCode.InternalError, `Error executing ${name}: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -5,6 +5,95 @@
 
 import { MCPToolDefinition } from './mcp-types.js';
 
+// Optional provenance accepted wherever observations are written
+const PROVENANCE_PROPERTIES = {
+  source: {
+    type: 'string',
+    description: 'Optional: where the observations came from (e.g. a document, URL, client or tool)'
+  },
+  sessionId: {
+    type: 'string',
+    description: 'Optional: id of the conversation or session that produced them'
+  },
+  agent: {
+    type: 'string',
+    description: 'Optional: name of the author or agent that recorded them'
+  },
+  confidence: {
+    type: 'number',
+    minimum: 0,
+    maximum: 1,
+    description: 'Optional: confidence in the observations, from 0 to 1'
+  }
+};
+
+const PROVENANCE_FILTER_PROPERTIES = {
+  source: {
+    type: 'string',
+    description: 'Only observations with this source'
+  },
+  sessionId: {
+    type: 'string',
+    description: 'Only observations written in this session'
+  },
+  agent: {
+    type: 'string',
+    description: 'Only observations recorded by this author or agent'
+  },
+  minConfidence: {
+    type: 'number',
+    description: 'Only observations with at least this confidence'
+  },
+  maxConfidence: {
+    type: 'number',
+    description: 'Only observations with at most this confidence'
+  }
+};
+
+// Property values are strings, numbers, booleans or ISO 8601 dates, optionally typed explicitly
+const PROPERTY_VALUE_SCHEMA = {
+  oneOf: [
+    { type: 'string' },
+    { type: 'number' },
+    { type: 'boolean' },
+    {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: ['string', 'number', 'boolean', 'date'] },
+        value: { type: ['string', 'number', 'boolean'] }
+      },
+      required: ['type', 'value']
+    }
+  ]
+};
+
+const PROPERTY_FILTERS_PROPERTY = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      key: { type: 'string', description: 'Property key' },
+      op: {
+        type: 'string',
+        enum: ['eq', 'ne', 'lt', 'lte', 'gt', 'gte'],
+        description: 'Comparison operator (default: eq)'
+      },
+      value: {
+        ...PROPERTY_VALUE_SCHEMA,
+        description: 'Value to compare with; only properties of the same type match'
+      }
+    },
+    required: ['key', 'value']
+  },
+  description: 'Optional: only entities whose properties match every filter, e.g. [{"key": "status", "value": "active"}, {"key": "due", "op": "lt", "value": "2026-12-01"}]'
+};
+
+const TAG_MODE_PROPERTY = {
+  type: 'string',
+  enum: ['all', 'any'],
+  description: 'Whether entities need every tag (all) or at least one (any); default: all'
+};
+
 export const TOOL_DEFINITIONS: Record<string, MCPToolDefinition> = {
   set_context: {
     name: 'set_context',
@@ -55,7 +144,15 @@ export const TOOL_DEFINITIONS: Record<string, MCPToolDefinition> = {
                   type: 'string'
                 },
                 description: 'An array of observation contents associated with the entity'
-              }
+              },
+              tags: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'Optional: free-form labels such as "urgent" or "q4-planning"; added to any the entity already has'
+              },
+              ...PROVENANCE_PROPERTIES
             },
             required: ['name', 'entityType', 'observations']
           }
@@ -75,13 +172,94 @@ export const TOOL_DEFINITIONS: Record<string, MCPToolDefinition> = {
           type: 'string',
           description: 'The search query to match against entity names, types, and observation content'
         },
+        queryMode: {
+          type: 'string',
+          enum: ['simple', 'advanced'],
+          description: 'simple (default) matches any term as a prefix; advanced accepts FTS5 syntax: "exact phrases", AND, OR, NOT, NEAR(a b, 5), prefix* and column filters on name, entity_type, observations and aliases (e.g. entity_type:project)'
+        },
+        weights: {
+          type: 'object',
+          properties: {
+            name: { type: 'number' },
+            entityType: { type: 'number' },
+            observations: { type: 'number' },
+            aliases: { type: 'number' }
+          },
+          description: 'Optional: bm25 weight per column used to rank hits (defaults: name 10, entityType 5, observations 1, aliases 8)'
+        },
+        resultMode: {
+          type: 'string',
+          enum: ['full', 'matches'],
+          description: 'full (default) returns every observation; matches returns only the observations that matched. Each hit carries match.score, match.observations (positions), match.highlights and match.snippet'
+        },
         limit: {
           type: 'number',
-          description: 'Maximum number of results to return (default: 100)'
+          description: 'Maximum number of results to return (default: 20)'
+        },
+        cursor: {
+          type: 'string',
+          description: 'Optional: page.nextCursor from the previous page of the same search; page.total counts every hit. Cursors count hits already returned, so writes between pages can make a hit be skipped or returned twice'
+        },
+        boostContext: {
+          type: 'string',
+          enum: ['none', 'current', 'predicted'],
+          description: 'Optional: when searching all contexts, rank hits from the current context, or the one predicted for the query, higher (default: none)'
+        },
+        boostFactor: {
+          type: 'number',
+          description: 'Optional: score multiplier for the boosted context (default: 1.5); a predicted context is boosted in proportion to the prediction confidence'
         },
         context: {
           type: 'string',
           description: 'Optional: specific context to use (overrides auto-detection)'
+        },
+        includeProvenance: {
+          type: 'boolean',
+          description: 'Include per-observation ids, timestamps and provenance (default: false)'
+        },
+        propertyFilters: PROPERTY_FILTERS_PROPERTY,
+        tags: {
+          type: 'array',
+          items: {
+            type: 'string'
+          },
+          description: 'Optional: only entities with these tags'
+        },
+        tagMode: TAG_MODE_PROPERTY,
+        entityTypes: {
+          type: 'array',
+          items: {
+            type: 'string'
+          },
+          description: 'Optional: only entities of one of these types'
+        },
+        createdAfter: {
+          type: 'string',
+          description: 'Optional: ISO 8601 date; only entities created at or after it'
+        },
+        createdBefore: {
+          type: 'string',
+          description: 'Optional: ISO 8601 date; only entities created before it'
+        },
+        updatedAfter: {
+          type: 'string',
+          description: 'Optional: ISO 8601 date; only entities updated at or after it'
+        },
+        updatedBefore: {
+          type: 'string',
+          description: 'Optional: ISO 8601 date; only entities updated before it'
+        },
+        minRelations: {
+          type: 'number',
+          description: 'Optional: only entities with at least this many current relations, in either direction'
+        },
+        hasRelationType: {
+          type: 'string',
+          description: 'Optional: only entities with a current relation of this type, in either direction'
+        },
+        asOf: {
+          type: 'string',
+          description: 'Optional: ISO 8601 date; search the graph as it was recorded at that time. Terms match as substrings and the type, property and tag filters apply to the entities of that time; past states are not indexed and only current dates and relations are known, so the advanced query mode, matches results and the date and relation filters are rejected'
         }
       },
       required: ['query']
@@ -105,6 +283,11 @@ export const TOOL_DEFINITIONS: Record<string, MCPToolDefinition> = {
         context: {
           type: 'string',
           description: 'Optional: specific context to use (overrides auto-detection)'
+        },
+        propertyFilters: PROPERTY_FILTERS_PROPERTY,
+        asOf: {
+          type: 'string',
+          description: 'Optional: ISO 8601 date; return entities, observations and relations as they were recorded at that time (relations also have to be valid then). Property filters apply to the properties of that time'
         }
       }
     }
@@ -126,6 +309,14 @@ export const TOOL_DEFINITIONS: Record<string, MCPToolDefinition> = {
         context: {
           type: 'string',
           description: 'Optional: specific context to use (overrides auto-detection)'
+        },
+        includeProvenance: {
+          type: 'boolean',
+          description: 'Include per-observation ids, timestamps and provenance (default: false)'
+        },
+        asOf: {
+          type: 'string',
+          description: 'Optional: ISO 8601 date; return entities, observations and relations as they were recorded at that time (relations also have to be valid then)'
         }
       },
       required: ['names']
@@ -154,10 +345,42 @@ export const TOOL_DEFINITIONS: Record<string, MCPToolDefinition> = {
               relationType: {
                 type: 'string',
                 description: 'The type of the relation'
+              },
+              weight: {
+                type: 'number',
+                exclusiveMinimum: 0,
+                description: 'Optional: edge strength; stronger relations are cheaper in weighted path search'
+              },
+              confidence: {
+                type: 'number',
+                minimum: 0,
+                maximum: 1,
+                description: 'Optional: confidence in the relation, from 0 to 1'
+              },
+              metadata: {
+                type: 'object',
+                description: 'Optional: free-form JSON attributes'
+              },
+              validFrom: {
+                type: 'string',
+                description: 'Optional: ISO 8601 date the relation starts holding (default: always)'
+              },
+              validTo: {
+                type: 'string',
+                description: 'Optional: ISO 8601 date the relation stops holding (default: open-ended)'
               }
             },
             required: ['from', 'to', 'relationType']
           }
+        },
+        onConflict: {
+          type: 'string',
+          enum: ['ignore', 'reinforce'],
+          description: 'What to do when a relation already exists: ignore it (default) or reinforce it, incrementing its count, replacing weight/confidence and merging metadata'
+        },
+        context: {
+          type: 'string',
+          description: 'Optional: specific context to use (overrides auto-detection)'
         }
       },
       required: ['relations']
@@ -197,6 +420,46 @@ export const TOOL_DEFINITIONS: Record<string, MCPToolDefinition> = {
     }
   },
   
+  close_relations: {
+    name: 'close_relations',
+    description: 'Mark relations as no longer holding (e.g. someone left a company) without deleting them. Closed relations drop out of reads and traversal but remain visible with an earlier asOf',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        relations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              from: {
+                type: 'string',
+                description: 'The name of the entity where the relation starts'
+              },
+              to: {
+                type: 'string',
+                description: 'The name of the entity where the relation ends'
+              },
+              relationType: {
+                type: 'string',
+                description: 'The type of the relation'
+              },
+              validTo: {
+                type: 'string',
+                description: 'Optional: ISO 8601 date the relation stopped holding (default: now)'
+              }
+            },
+            required: ['from', 'to', 'relationType']
+          }
+        },
+        context: {
+          type: 'string',
+          description: 'Optional: specific context to use (overrides auto-detection)'
+        }
+      },
+      required: ['relations']
+    }
+  },
+  
   add_observations: {
     name: 'add_observations',
     description: 'Add new observations to existing entities in the knowledge graph. Batched for performance',
@@ -218,7 +481,8 @@ export const TOOL_DEFINITIONS: Record<string, MCPToolDefinition> = {
                   type: 'string'
                 },
                 description: 'An array of observation contents to add'
-              }
+              },
+              ...PROVENANCE_PROPERTIES
             },
             required: ['entityName', 'contents']
           }
@@ -248,10 +512,17 @@ export const TOOL_DEFINITIONS: Record<string, MCPToolDefinition> = {
                 items: {
                   type: 'string'
                 },
-                description: 'An array of observations to delete'
+                description: 'An array of observations to delete, matched by exact content'
+              },
+              ids: {
+                type: 'array',
+                items: {
+                  type: 'number'
+                },
+                description: 'An array of observation ids to delete (see get_observations)'
               }
             },
-            required: ['entityName', 'observations']
+            required: ['entityName']
           }
         }
       },
@@ -259,21 +530,652 @@ export const TOOL_DEFINITIONS: Record<string, MCPToolDefinition> = {
     }
   },
   
-  delete_entities: {
-    name: 'delete_entities',
-    description: 'Delete multiple entities and their associated relations from the knowledge graph',
+  get_observations: {
+    name: 'get_observations',
+    description: 'List observations with their ids, creation times and provenance, for one entity and/or by provenance (e.g. everything a session wrote)',
     inputSchema: {
       type: 'object',
       properties: {
-        entityNames: {
+        entityName: {
+          type: 'string',
+          description: 'The name of the entity'
+        },
+        ...PROVENANCE_FILTER_PROPERTIES,
+        limit: {
+          type: 'number',
+          description: 'Maximum number of observations to return'
+        },
+        context: {
+          type: 'string',
+          description: 'Optional: specific context to read from (default: the entity\'s context, or all contexts for provenance queries)'
+        }
+      }
+    }
+  },
+  
+  update_observations: {
+    name: 'update_observations',
+    description: 'Edit the content of existing observations by id. Batched for performance',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        updates: {
           type: 'array',
           items: {
-            type: 'string'
-          },
-          description: 'An array of entity names to delete'
+            type: 'object',
+            properties: {
+              entityName: {
+                type: 'string',
+                description: 'The name of the entity the observation belongs to'
+              },
+              id: {
+                type: 'number',
+                description: 'The observation id'
+              },
+              content: {
+                type: 'string',
+                description: 'The new observation content'
+              }
+            },
+            required: ['entityName', 'id', 'content']
+          }
+        },
+        context: {
+          type: 'string',
+          description: 'Optional: specific context holding the entities'
         }
       },
-      required: ['entityNames']
+      required: ['updates']
+    }
+  },
+  
+  delete_observations_by_provenance: {
+    name: 'delete_observations_by_provenance',
+    description: 'Delete every observation matching a provenance filter, e.g. to undo the writes of a bad session. At least one filter is required',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...PROVENANCE_FILTER_PROPERTIES,
+        context: {
+          type: 'string',
+          description: 'Optional: specific context to delete from (default: all contexts)'
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'List the matching observations without deleting them (default: false)'
+        }
+      }
+    }
+  },
+  
+  get_entity_history: {
+    name: 'get_entity_history',
+    description: 'Audit trail of an entity, newest first: every create, update, observation and property change, relation change and delete, with before/after snapshots and timestamps. Available after the entity is deleted',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        entityName: {
+          type: 'string',
+          description: 'The name of the entity'
+        },
+        includeRelations: {
+          type: 'boolean',
+          description: 'Include changes to relations from or to the entity (default: true)'
+        },
+        limit: {
+          type: 'number',
+          description: 'Optional: maximum number of entries to return (newest first)'
+        },
+        context: {
+          type: 'string',
+          description: 'Optional: specific context to read (default: all contexts)'
+        }
+      },
+      required: ['entityName']
+    }
+  },
+  
+  set_properties: {
+    name: 'set_properties',
+    description: 'Set typed key/value properties on entities (e.g. status, priority, email, due date). ISO 8601 strings are stored as dates',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        updates: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              entityName: {
+                type: 'string',
+                description: 'The name of the entity'
+              },
+              properties: {
+                type: 'object',
+                additionalProperties: {
+                  oneOf: [...PROPERTY_VALUE_SCHEMA.oneOf, { type: 'null' }]
+                },
+                description: 'Values to set by key, e.g. {"status": "active", "priority": 2}; null removes a property'
+              }
+            },
+            required: ['entityName', 'properties']
+          }
+        },
+        context: {
+          type: 'string',
+          description: 'Optional: specific context holding the entities'
+        }
+      },
+      required: ['updates']
+    }
+  },
+  
+  add_tags: {
+    name: 'add_tags',
+    description: 'Label entities with free-form tags (e.g. urgent, q4-planning, family). Tags filter search_nodes and find_by_tags, and help route new entities to the right context',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        updates: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              entityName: {
+                type: 'string',
+                description: 'The name of the entity'
+              },
+              tags: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'Tags to add; tags differing only in case are the same tag'
+              }
+            },
+            required: ['entityName', 'tags']
+          }
+        },
+        context: {
+          type: 'string',
+          description: 'Optional: specific context holding the entities'
+        }
+      },
+      required: ['updates']
+    }
+  },
+  
+  remove_tags: {
+    name: 'remove_tags',
+    description: 'Remove tags from entities',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        updates: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              entityName: {
+                type: 'string',
+                description: 'The name of the entity'
+              },
+              tags: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'Tags to remove'
+              }
+            },
+            required: ['entityName', 'tags']
+          }
+        },
+        context: {
+          type: 'string',
+          description: 'Optional: specific context holding the entities'
+        }
+      },
+      required: ['updates']
+    }
+  },
+  
+  find_by_tags: {
+    name: 'find_by_tags',
+    description: 'List entities carrying all (or any) of the given tags',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tags: {
+          type: 'array',
+          items: {
+            type: 'string'
+          },
+          description: 'Tags to look for'
+        },
+        mode: TAG_MODE_PROPERTY,
+        limit: {
+          type: 'number',
+          description: 'Optional: maximum number of entities to return'
+        },
+        context: {
+          type: 'string',
+          description: 'Optional: specific context to read (default: all contexts)'
+        }
+      },
+      required: ['tags']
+    }
+  },
+  
+  add_aliases: {
+    name: 'add_aliases',
+    description: 'Give entities alternate names (nicknames, abbreviations, former names). open_nodes, create_relations and observation updates accept an alias in place of the entity name, and search matches aliases',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        updates: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              entityName: {
+                type: 'string',
+                description: 'The name of the entity'
+              },
+              aliases: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'Alternate names; each must not be the name or alias of another entity'
+              }
+            },
+            required: ['entityName', 'aliases']
+          }
+        },
+        context: {
+          type: 'string',
+          description: 'Optional: specific context holding the entities'
+        }
+      },
+      required: ['updates']
+    }
+  },
+  
+  remove_aliases: {
+    name: 'remove_aliases',
+    description: 'Remove alternate names from entities',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        updates: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              entityName: {
+                type: 'string',
+                description: 'The name of the entity'
+              },
+              aliases: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'Aliases to remove'
+              }
+            },
+            required: ['entityName', 'aliases']
+          }
+        },
+        context: {
+          type: 'string',
+          description: 'Optional: specific context holding the entities'
+        }
+      },
+      required: ['updates']
+    }
+  },
+  
+  rename_entity: {
+    name: 'rename_entity',
+    description: 'Rename an entity, keeping its observations, properties and relations. The new name cannot be another entity or an alias',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        oldName: {
+          type: 'string',
+          description: 'Current name of the entity'
+        },
+        newName: {
+          type: 'string',
+          description: 'New name; must not belong to another entity'
+        },
+        context: {
+          type: 'string',
+          description: 'Optional: specific context to use (overrides auto-detection)'
+        }
+      },
+      required: ['oldName', 'newName']
+    }
+  },
+  
+  merge_entities: {
+    name: 'merge_entities',
+    description: 'Merge duplicate entities into one: observations are combined without duplicates, relations are repointed to the target (dropping self-loops and duplicate edges) and the source names become aliases of the target',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        targetName: {
+          type: 'string',
+          description: 'The entity to keep'
+        },
+        sourceNames: {
+          type: 'array',
+          items: {
+            type: 'string'
+          },
+          description: 'Entities to fold into the target; they must be in the same context'
+        },
+        context: {
+          type: 'string',
+          description: 'Optional: specific context to use (overrides auto-detection)'
+        }
+      },
+      required: ['targetName', 'sourceNames']
+    }
+  },
+  
+  delete_entities: {
+    name: 'delete_entities',
+    description: 'Delete multiple entities and their associated relations from the knowledge graph. Deleted entities go to the trash and can be brought back with restore_trash until purged',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        entityNames: {
+          type: 'array',
+          items: {
+            type: 'string'
+          },
+          description: 'An array of entity names to delete'
+        }
+      },
+      required: ['entityNames']
+    }
+  },
+  
+  undo: {
+    name: 'undo',
+    description: 'Revert the last N mutating operations in a context (entity, observation, property, relation and trash changes), newest first. Refuses without changing anything when a later change depends on them',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        count: {
+          type: 'number',
+          description: 'Number of operations to undo (default: 1)'
+        },
+        context: {
+          type: 'string',
+          description: 'Optional: context to undo in (default: current context)'
+        }
+      }
+    }
+  },
+  
+  list_trash: {
+    name: 'list_trash',
+    description: 'List deleted entities in the trash, most recently deleted first, with their observations, properties and relations',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: {
+          type: 'number',
+          description: 'Optional: maximum number of items to return'
+        },
+        context: {
+          type: 'string',
+          description: 'Optional: specific context to read (default: all contexts)'
+        }
+      }
+    }
+  },
+  
+  restore_trash: {
+    name: 'restore_trash',
+    description: 'Restore deleted entities from the trash with their observations, properties and relations. Relations to entities that no longer exist are not restored; names that are in use again, as an entity or an alias, stay in the trash',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        entityNames: {
+          type: 'array',
+          items: {
+            type: 'string'
+          },
+          description: 'Names of the entities to restore (the most recent deletion of each)'
+        },
+        context: {
+          type: 'string',
+          description: 'Optional: specific context to restore into (default: the first context holding each name)'
+        }
+      },
+      required: ['entityNames']
+    }
+  },
+  
+  purge_trash: {
+    name: 'purge_trash',
+    description: 'Permanently remove entities from the trash. Items older than TRASH_RETENTION_DAYS are also purged automatically',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        entityNames: {
+          type: 'array',
+          items: {
+            type: 'string'
+          },
+          description: 'Optional: only purge these entities (default: everything in the trash)'
+        },
+        olderThanDays: {
+          type: 'number',
+          description: 'Optional: only purge entities deleted at least this many days ago'
+        },
+        context: {
+          type: 'string',
+          description: 'Optional: specific context to purge (default: all contexts)'
+        }
+      }
+    }
+  },
+  
+  get_ontology: {
+    name: 'get_ontology',
+    description: 'Show the ontology of a context: its allowed entity types with synonyms and its relation types with domain and range',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        context: {
+          type: 'string',
+          description: 'Optional: context to read (default: current context)'
+        }
+      }
+    }
+  },
+  
+  set_ontology: {
+    name: 'set_ontology',
+    description: 'Set the ontology of a context. Entity types given as a synonym are stored under the declared name; in strict mode create_entities and create_relations reject unknown types and relations outside their domain and range, in lenient mode they are stored with warnings',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ontology: {
+          type: ['object', 'null'],
+          properties: {
+            mode: {
+              type: 'string',
+              enum: ['strict', 'lenient'],
+              description: 'strict rejects violations, lenient (default) accepts them with warnings'
+            },
+            entityTypes: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string', description: 'Declared type, e.g. "person"' },
+                  synonyms: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Spellings normalized to the declared type, e.g. ["Person", "people", "human"]'
+                  }
+                },
+                required: ['name']
+              }
+            },
+            relationTypes: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string', description: 'Relation type, e.g. "works_at"' },
+                  domain: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Optional: allowed entity types of the from end, e.g. ["person"]'
+                  },
+                  range: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Optional: allowed entity types of the to end, e.g. ["company"]'
+                  }
+                },
+                required: ['name']
+              },
+              description: 'Optional: allowed relation types; any relation type is allowed when omitted'
+            }
+          },
+          required: ['entityTypes'],
+          description: 'The ontology, or null to remove it'
+        },
+        context: {
+          type: 'string',
+          description: 'Optional: context to configure (default: current context)'
+        }
+      },
+      required: ['ontology']
+    }
+  },
+  
+  maintain_search_index: {
+    name: 'maintain_search_index',
+    description: 'Check the full-text search index against stored entities and report drift, or rebuild/optimize it on demand',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['check', 'rebuild', 'optimize'],
+          description: 'check (default) reports missing/orphaned rows and runs an integrity check, rebuild re-indexes every entity, optimize merges index segments'
+        },
+        context: {
+          type: 'string',
+          description: 'Optional: specific context to maintain (default: all contexts)'
+        }
+      }
+    }
+  },
+  
+  get_neighbors: {
+    name: 'get_neighbors',
+    description: 'Get entities connected to an entity, traversing up to 5 hops breadth-first. Each returned entity carries its hop distance in _distance',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        entityName: {
+          type: 'string',
+          description: 'The name of the entity to start from'
+        },
+        direction: {
+          type: 'string',
+          enum: ['outgoing', 'incoming', 'both'],
+          description: 'Direction of relations to follow (default: both)'
+        },
+        relationType: {
+          type: 'string',
+          description: 'Optional: only follow relations of this type'
+        },
+        depth: {
+          type: 'number',
+          description: 'How many hops to traverse, 1-5 (default: 1)'
+        },
+        includeRelations: {
+          type: 'boolean',
+          description: 'Include the traversed relations in the response (default: true)'
+        },
+        context: {
+          type: 'string',
+          description: 'Optional: restrict the traversal to this context'
+        },
+        crossContext: {
+          type: 'boolean',
+          description: 'Hop between contexts through entities that exist in several of them (default: false, ignored when context is set)'
+        },
+        asOf: {
+          type: 'string',
+          description: 'Optional: ISO 8601 date; traverse the graph as it was recorded at that time, including entities and relations deleted since, following only relations valid then (default: now)'
+        }
+      },
+      required: ['entityName']
+    }
+  },
+  
+  find_shortest_path: {
+    name: 'find_shortest_path',
+    description: 'Find the shortest path between two entities, including the relation types along the way. Unweighted search uses bidirectional BFS; weighted search uses Dijkstra',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        from: {
+          type: 'string',
+          description: 'The name of the entity where the path starts'
+        },
+        to: {
+          type: 'string',
+          description: 'The name of the entity where the path ends'
+        },
+        bidirectional: {
+          type: 'boolean',
+          description: 'Follow relations in both directions (default: true)'
+        },
+        relationType: {
+          type: 'string',
+          description: 'Optional: only follow relations of this type'
+        },
+        maxDepth: {
+          type: 'number',
+          description: 'Maximum number of hops, 1-10 (default: 6)'
+        },
+        weighted: {
+          type: 'boolean',
+          description: 'Find the cheapest path instead of the fewest hops; each relation costs 1 / its weight, or 1 when unweighted (default: false)'
+        },
+        relationWeights: {
+          type: 'object',
+          additionalProperties: { type: 'number' },
+          description: 'Optional: cost per relation type for weighted search, overriding relation weights, e.g. {"knows": 2}'
+        },
+        context: {
+          type: 'string',
+          description: 'Optional: restrict the search to this context'
+        },
+        crossContext: {
+          type: 'boolean',
+          description: 'Hop between contexts through entities that exist in several of them (default: false, ignored when context is set)'
+        },
+        asOf: {
+          type: 'string',
+          description: 'Optional: ISO 8601 date; traverse the graph as it was recorded at that time, including entities and relations deleted since, following only relations valid then (default: now)'
+        }
+      },
+      required: ['from', 'to']
     }
   }
 };
@@ -14,14 +14,34 @@ import {
   OpenNodesInput,
   CreateRelationsInput,
   DeleteRelationsInput,
+  CloseRelationsInput,
   AddObservationsInput,
   DeleteObservationsInput,
+  GetObservationsInput,
+  UpdateObservationsInput,
+  DeleteObservationsByProvenanceInput,
+  GetEntityHistoryInput,
+  SetPropertiesInput,
+  AddTagsInput,
+  RemoveTagsInput,
+  FindByTagsInput,
+  AddAliasesInput,
+  RemoveAliasesInput,
+  RenameEntityInput,
+  MergeEntitiesInput,
   DeleteEntitiesInput,
+  UndoInput,
+  ListTrashInput,
+  RestoreTrashInput,
+  PurgeTrashInput,
   BeginTransactionInput,
   CommitTransactionInput,
   RollbackTransactionInput,
   CreateBackupInput,
   RestoreBackupInput,
+  GetOntologyInput,
+  SetOntologyInput,
+  MaintainSearchIndexInput,
   GetNeighborsInput,
   FindShortestPathInput,
 } from './tool-schemas.js';
@@ -76,7 +96,13 @@ export function handleSearchNodes(args: any, ctx: ToolContext) {
 
 export function handleReadGraph(args: any, ctx: ToolContext) {
   const validated = toolSchemas.read_graph.parse(args) as ReadGraphInput;
-  const graph = ctx.manager.readGraph(validated.limit, validated.offset || 0, validated.context);
+  const graph = ctx.manager.readGraph(
+    validated.limit,
+    validated.offset || 0,
+    validated.context,
+    validated.propertyFilters,
+    validated.asOf
+  );
   const duration = performance.now() - ctx.startTime;
   
   return {
@@ -91,7 +117,12 @@ export function handleReadGraph(args: any, ctx: ToolContext) {
 
 export function handleOpenNodes(args: any, ctx: ToolContext) {
   const validated = toolSchemas.open_nodes.parse(args) as OpenNodesInput;
-  const result = ctx.manager.openNodes(validated.names);
+  const result = ctx.manager.openNodes(
+    validated.names,
+    validated.context,
+    validated.includeProvenance === true,
+    validated.asOf
+  );
   const duration = performance.now() - ctx.startTime;
   
   return {
@@ -107,7 +138,7 @@ export function handleOpenNodes(args: any, ctx: ToolContext) {
 // Relation operation handlers
 export function handleCreateRelations(args: any, ctx: ToolContext) {
   const validated = toolSchemas.create_relations.parse(args) as CreateRelationsInput;
-  const created = ctx.manager.createRelations(validated.relations);
+  const created = ctx.manager.createRelations(validated.relations, validated.context, validated.onConflict);
   const duration = performance.now() - ctx.startTime;
   
   return {
@@ -131,27 +162,272 @@ export function handleDeleteRelations(args: any, ctx: ToolContext) {
   };
 }
 
+export function handleCloseRelations(args: any, ctx: ToolContext) {
+  const validated = toolSchemas.close_relations.parse(args) as CloseRelationsInput;
+  const closed = ctx.manager.closeRelations(validated.relations, validated.context);
+  const duration = performance.now() - ctx.startTime;
+  
+  const relationKey = (r: { from: string; to: string; relationType: string }) =>
+    `${r.from.toLowerCase()}\u0000${r.to.toLowerCase()}\u0000${r.relationType}`;
+  const closedKeys = new Set(closed.map(relationKey));
+  const notFound = validated.relations
+    .filter(relation => !closedKeys.has(relationKey(relation)))
+    .map(({ from, to, relationType }) => ({ from, to, relationType }));
+  
+  return {
+    success: notFound.length === 0,
+    closed,
+    notFound,
+    performance: { duration: `${duration.toFixed(2)}ms` },
+  };
+}
+
 // Observation operation handlers
 export function handleAddObservations(args: any, ctx: ToolContext) {
   const validated = toolSchemas.add_observations.parse(args) as AddObservationsInput;
-  ctx.manager.addObservations(validated.observations);
+  const added = ctx.manager.addObservations(validated.observations);
   const duration = performance.now() - ctx.startTime;
   
   return {
     success: true,
-    observationsAdded: validated.observations.length,
+    observationsAdded: added.length,
+    added,
     performance: { duration: `${duration.toFixed(2)}ms` },
   };
 }
 
 export function handleDeleteObservations(args: any, ctx: ToolContext) {
   const validated = toolSchemas.delete_observations.parse(args) as DeleteObservationsInput;
-  ctx.manager.deleteObservations(validated.deletions);
+  const deleted = ctx.manager.deleteObservations(validated.deletions);
   const duration = performance.now() - ctx.startTime;
   
   return {
     success: true,
     deletionsProcessed: validated.deletions.length,
+    observationsDeleted: deleted,
+    performance: { duration: `${duration.toFixed(2)}ms` },
+  };
+}
+
+export function handleGetObservations(args: any, ctx: ToolContext) {
+  const validated = toolSchemas.get_observations.parse(args) as GetObservationsInput;
+  const { context, ...filter } = validated;
+  const observations = filter.entityName !== undefined && Object.keys(filter).length === 1
+    ? ctx.manager.getObservations(filter.entityName, context)
+    : ctx.manager.findObservations(filter, context);
+  const duration = performance.now() - ctx.startTime;
+  
+  return {
+    filter,
+    observations,
+    performance: {
+      duration: `${duration.toFixed(2)}ms`,
+      resultCount: observations.length,
+    },
+  };
+}
+
+export function handleUpdateObservations(args: any, ctx: ToolContext) {
+  const validated = toolSchemas.update_observations.parse(args) as UpdateObservationsInput;
+  const updated = ctx.manager.updateObservations(validated.updates, validated.context);
+  const duration = performance.now() - ctx.startTime;
+  
+  const updatedIds = new Set(updated.map(o => o.id));
+  const notFound = validated.updates
+    .filter(update => !updatedIds.has(update.id))
+    .map(update => ({ entityName: update.entityName, id: update.id }));
+  
+  return {
+    success: notFound.length === 0,
+    updated,
+    notFound,
+    performance: { duration: `${duration.toFixed(2)}ms` },
+  };
+}
+
+export function handleDeleteObservationsByProvenance(args: any, ctx: ToolContext) {
+  const validated = toolSchemas.delete_observations_by_provenance.parse(args) as DeleteObservationsByProvenanceInput;
+  const { context, dryRun, ...filter } = validated;
+  
+  if (dryRun) {
+    const matches = ctx.manager.findObservations(filter, context);
+    const duration = performance.now() - ctx.startTime;
+    return {
+      success: true,
+      dryRun: true,
+      observationsMatched: matches.length,
+      observations: matches,
+      performance: { duration: `${duration.toFixed(2)}ms` },
+    };
+  }
+  
+  const contexts = ctx.manager.deleteObservationsByProvenance(filter, context);
+  const duration = performance.now() - ctx.startTime;
+  
+  return {
+    success: true,
+    observationsDeleted: Object.values(contexts).reduce((sum, count) => sum + count, 0),
+    contexts,
+    performance: { duration: `${duration.toFixed(2)}ms` },
+  };
+}
+
+// Change history handler
+export function handleGetEntityHistory(args: any, ctx: ToolContext) {
+  const validated = toolSchemas.get_entity_history.parse(args) as GetEntityHistoryInput;
+  const history = ctx.manager.getEntityHistory(
+    validated.entityName,
+    { includeRelations: validated.includeRelations !== false, limit: validated.limit },
+    validated.context
+  );
+  const duration = performance.now() - ctx.startTime;
+  
+  return {
+    entityName: validated.entityName,
+    history,
+    performance: {
+      duration: `${duration.toFixed(2)}ms`,
+      resultCount: history.length,
+    },
+  };
+}
+
+// Property handlers
+export function handleSetProperties(args: any, ctx: ToolContext) {
+  const validated = toolSchemas.set_properties.parse(args) as SetPropertiesInput;
+  const updated = ctx.manager.setProperties(validated.updates, validated.context);
+  const duration = performance.now() - ctx.startTime;
+  
+  const updatedNames = new Set(updated.map(name => name.toLowerCase()));
+  const notFound = validated.updates
+    .map(update => update.entityName)
+    .filter(name => !updatedNames.has(name.toLowerCase()));
+  
+  return {
+    success: notFound.length === 0,
+    updated,
+    notFound,
+    performance: { duration: `${duration.toFixed(2)}ms` },
+  };
+}
+
+// Tag handlers
+export function handleAddTags(args: any, ctx: ToolContext) {
+  const validated = toolSchemas.add_tags.parse(args) as AddTagsInput;
+  const updated = ctx.manager.addTags(validated.updates, validated.context);
+  const duration = performance.now() - ctx.startTime;
+  
+  const updatedNames = new Set(updated.map(name => name.toLowerCase()));
+  const notFound = validated.updates
+    .map(update => update.entityName)
+    .filter(name => !updatedNames.has(name.toLowerCase()));
+  
+  return {
+    success: notFound.length === 0,
+    updated,
+    notFound,
+    performance: { duration: `${duration.toFixed(2)}ms` },
+  };
+}
+
+export function handleRemoveTags(args: any, ctx: ToolContext) {
+  const validated = toolSchemas.remove_tags.parse(args) as RemoveTagsInput;
+  const updated = ctx.manager.removeTags(validated.updates, validated.context);
+  const duration = performance.now() - ctx.startTime;
+  
+  const updatedNames = new Set(updated.map(name => name.toLowerCase()));
+  const notFound = validated.updates
+    .map(update => update.entityName)
+    .filter(name => !updatedNames.has(name.toLowerCase()));
+  
+  return {
+    success: notFound.length === 0,
+    updated,
+    notFound,
+    performance: { duration: `${duration.toFixed(2)}ms` },
+  };
+}
+
+export function handleFindByTags(args: any, ctx: ToolContext) {
+  const validated = toolSchemas.find_by_tags.parse(args) as FindByTagsInput;
+  const entities = ctx.manager.findByTags(
+    validated.tags,
+    validated.mode ?? 'all',
+    validated.limit,
+    validated.context
+  );
+  const duration = performance.now() - ctx.startTime;
+  
+  return {
+    tags: validated.tags,
+    mode: validated.mode ?? 'all',
+    entities,
+    performance: {
+      duration: `${duration.toFixed(2)}ms`,
+      resultCount: entities.length,
+    },
+  };
+}
+
+// Entity alias handlers
+export function handleAddAliases(args: any, ctx: ToolContext) {
+  const validated = toolSchemas.add_aliases.parse(args) as AddAliasesInput;
+  const updated = ctx.manager.addAliases(validated.updates, validated.context);
+  const duration = performance.now() - ctx.startTime;
+  
+  const updatedNames = new Set(updated.map(name => name.toLowerCase()));
+  const notFound = validated.updates
+    .map(update => update.entityName)
+    .filter(name => !updatedNames.has(name.toLowerCase()));
+  
+  return {
+    success: notFound.length === 0,
+    updated,
+    notFound,
+    performance: { duration: `${duration.toFixed(2)}ms` },
+  };
+}
+
+export function handleRemoveAliases(args: any, ctx: ToolContext) {
+  const validated = toolSchemas.remove_aliases.parse(args) as RemoveAliasesInput;
+  const updated = ctx.manager.removeAliases(validated.updates, validated.context);
+  const duration = performance.now() - ctx.startTime;
+  
+  const updatedNames = new Set(updated.map(name => name.toLowerCase()));
+  const notFound = validated.updates
+    .map(update => update.entityName)
+    .filter(name => !updatedNames.has(name.toLowerCase()));
+  
+  return {
+    success: notFound.length === 0,
+    updated,
+    notFound,
+    performance: { duration: `${duration.toFixed(2)}ms` },
+  };
+}
+
+// Entity rename handler
+export function handleRenameEntity(args: any, ctx: ToolContext) {
+  const validated = toolSchemas.rename_entity.parse(args) as RenameEntityInput;
+  const entity = ctx.manager.renameEntity(validated.oldName, validated.newName, validated.context);
+  const duration = performance.now() - ctx.startTime;
+  
+  return {
+    success: true,
+    entity,
+    performance: { duration: `${duration.toFixed(2)}ms` },
+  };
+}
+
+// Entity merge handler
+export function handleMergeEntities(args: any, ctx: ToolContext) {
+  const validated = toolSchemas.merge_entities.parse(args) as MergeEntitiesInput;
+  const result = ctx.manager.mergeEntities(validated.targetName, validated.sourceNames, validated.context);
+  const duration = performance.now() - ctx.startTime;
+  
+  return {
+    success: true,
+    ...result,
     performance: { duration: `${duration.toFixed(2)}ms` },
   };
 }
@@ -169,6 +445,64 @@ export function handleDeleteEntities(args: any, ctx: ToolContext) {
   };
 }
 
+// Undo handler
+export function handleUndo(args: any, ctx: ToolContext) {
+  const validated = toolSchemas.undo.parse(args) as UndoInput;
+  const undone = ctx.manager.undo(validated.count, validated.context);
+  const duration = performance.now() - ctx.startTime;
+  
+  return {
+    success: undone.length > 0,
+    undone,
+    performance: { duration: `${duration.toFixed(2)}ms` },
+  };
+}
+
+// Trash handlers
+export function handleListTrash(args: any, ctx: ToolContext) {
+  const validated = toolSchemas.list_trash.parse(args) as ListTrashInput;
+  const items = ctx.manager.listTrash(validated.limit, validated.context);
+  const duration = performance.now() - ctx.startTime;
+  
+  return {
+    items,
+    performance: {
+      duration: `${duration.toFixed(2)}ms`,
+      resultCount: items.length,
+    },
+  };
+}
+
+export function handleRestoreTrash(args: any, ctx: ToolContext) {
+  const validated = toolSchemas.restore_trash.parse(args) as RestoreTrashInput;
+  const restored = ctx.manager.restoreTrash(validated.entityNames, validated.context);
+  const duration = performance.now() - ctx.startTime;
+  
+  const restoredNames = new Set(restored.map(item => item.entity.name.toLowerCase()));
+  const notRestored = validated.entityNames.filter(name => !restoredNames.has(name.toLowerCase()));
+  
+  return {
+    success: notRestored.length === 0,
+    restored,
+    notRestored,
+    performance: { duration: `${duration.toFixed(2)}ms` },
+  };
+}
+
+export function handlePurgeTrash(args: any, ctx: ToolContext) {
+  const validated = toolSchemas.purge_trash.parse(args) as PurgeTrashInput;
+  const { context, ...options } = validated;
+  const contexts = ctx.manager.purgeTrash(options, context);
+  const duration = performance.now() - ctx.startTime;
+  
+  return {
+    success: true,
+    itemsPurged: Object.values(contexts).reduce((sum, count) => sum + count, 0),
+    contexts,
+    performance: { duration: `${duration.toFixed(2)}ms` },
+  };
+}
+
 // Transaction handlers
 export function handleBeginTransaction(args: any, ctx: ToolContext) {
   const validated = toolSchemas.begin_transaction.parse(args) as BeginTransactionInput;
@@ -250,6 +584,50 @@ export function handleRestoreBackup(args: any, ctx: ToolContext) {
   };
 }
 
+// Ontology handlers
+export function handleGetOntology(args: any, ctx: ToolContext) {
+  const validated = toolSchemas.get_ontology.parse(args) as GetOntologyInput;
+  const context = validated.context || ctx.manager.currentContext;
+  const ontology = ctx.manager.getOntology(context);
+  const duration = performance.now() - ctx.startTime;
+  
+  return {
+    context,
+    ontology,
+    performance: { duration: `${duration.toFixed(2)}ms` },
+  };
+}
+
+export function handleSetOntology(args: any, ctx: ToolContext) {
+  const validated = toolSchemas.set_ontology.parse(args) as SetOntologyInput;
+  const context = validated.context || ctx.manager.currentContext;
+  ctx.manager.setOntology(validated.ontology, context);
+  const duration = performance.now() - ctx.startTime;
+  
+  return {
+    success: true,
+    context,
+    ontology: validated.ontology,
+    performance: { duration: `${duration.toFixed(2)}ms` },
+  };
+}
+
+// Search index maintenance handler
+export function handleMaintainSearchIndex(args: any, ctx: ToolContext) {
+  const validated = toolSchemas.maintain_search_index.parse(args) as MaintainSearchIndexInput;
+  const action = validated.action || 'check';
+  const reports = ctx.manager.maintainSearchIndex(action, validated.context);
+  const duration = performance.now() - ctx.startTime;
+  
+  return {
+    success: true,
+    action,
+    consistent: Object.values(reports).every(report => report.after.consistent),
+    contexts: reports,
+    performance: { duration: `${duration.toFixed(2)}ms` },
+  };
+}
+
 // Graph traversal handlers
 export function handleGetNeighbors(args: any, ctx: ToolContext) {
   const validated = toolSchemas.get_neighbors.parse(args) as GetNeighborsInput;
@@ -260,7 +638,9 @@ export function handleGetNeighbors(args: any, ctx: ToolContext) {
       relationType: validated.relationType,
       depth: validated.depth || 1,
       includeRelations: validated.includeRelations !== false,
-      context: validated.context
+      context: validated.context,
+      crossContext: validated.crossContext === true,
+      asOf: validated.asOf
     }
   );
   const duration = performance.now() - ctx.startTime;
@@ -285,7 +665,11 @@ export function handleFindShortestPath(args: any, ctx: ToolContext) {
       bidirectional: validated.bidirectional !== false,
       relationType: validated.relationType,
       maxDepth: validated.maxDepth || 6,
-      context: validated.context
+      weighted: validated.weighted === true,
+      relationWeights: validated.relationWeights,
+      context: validated.context,
+      crossContext: validated.crossContext === true,
+      asOf: validated.asOf
     }
   );
   const duration = performance.now() - ctx.startTime;
@@ -293,7 +677,9 @@ export function handleFindShortestPath(args: any, ctx: ToolContext) {
   return {
     found: result.found,
     path: result.path,
+    relations: result.relations,
     distance: result.distance,
+    cost: result.cost,
     performance: { 
       duration: `${duration.toFixed(2)}ms`,
       nodesExplored: result.nodesExplored || 0,
@@ -317,14 +703,39 @@ export const toolHandlers: Record<string, (args: any, ctx: ToolContext) => any>
   // Relation operations
   'create_relations': handleCreateRelations,
   'delete_relations': handleDeleteRelations,
+  'close_relations': handleCloseRelations,
   
   // Observation operations
   'add_observations': handleAddObservations,
   'delete_observations': handleDeleteObservations,
+  'get_observations': handleGetObservations,
+  'update_observations': handleUpdateObservations,
+  'delete_observations_by_provenance': handleDeleteObservationsByProvenance,
+  
+  // Change history
+  'get_entity_history': handleGetEntityHistory,
   
-  // Entity deletion
+  // Property operations
+  'set_properties': handleSetProperties,
+  'add_tags': handleAddTags,
+  'remove_tags': handleRemoveTags,
+  'find_by_tags': handleFindByTags,
+  'add_aliases': handleAddAliases,
+  'remove_aliases': handleRemoveAliases,
+  
+  // Entity rename, merge and deletion
+  'rename_entity': handleRenameEntity,
+  'merge_entities': handleMergeEntities,
   'delete_entities': handleDeleteEntities,
   
+  // Undo
+  'undo': handleUndo,
+  
+  // Trash
+  'list_trash': handleListTrash,
+  'restore_trash': handleRestoreTrash,
+  'purge_trash': handlePurgeTrash,
+  
   // Transaction management
   'begin_transaction': handleBeginTransaction,
   'commit_transaction': handleCommitTransaction,
@@ -334,6 +745,13 @@ export const toolHandlers: Record<string, (args: any, ctx: ToolContext) => any>
   'create_backup': handleCreateBackup,
   'restore_backup': handleRestoreBackup,
   
+  // Ontology
+  'get_ontology': handleGetOntology,
+  'set_ontology': handleSetOntology,
+  
+  // Search index maintenance
+  'maintain_search_index': handleMaintainSearchIndex,
+  
   // Graph traversal
   'get_neighbors': handleGetNeighbors,
   'find_shortest_path': handleFindShortestPath,
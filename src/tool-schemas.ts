@@ -5,12 +5,60 @@
 
 import { z } from 'zod';
 
+// Provenance recorded with each written observation
+const ProvenanceSchema = z.object({
+  source: z.string().optional(),
+  sessionId: z.string().optional(),
+  agent: z.string().optional(),
+  confidence: z.number().min(0).max(1).optional(),
+});
+
+const ProvenanceFilterSchema = z.object({
+  source: z.string().optional(),
+  sessionId: z.string().optional(),
+  agent: z.string().optional(),
+  minConfidence: z.number().min(0).max(1).optional(),
+  maxConfidence: z.number().min(0).max(1).optional(),
+});
+
+function hasProvenanceCriterion(filter: z.infer<typeof ProvenanceFilterSchema>): boolean {
+  return filter.source !== undefined || filter.sessionId !== undefined || filter.agent !== undefined ||
+    filter.minConfidence !== undefined || filter.maxConfidence !== undefined;
+}
+
+// Property values; bare ISO 8601 strings are stored as dates unless typed otherwise
+const PropertyValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const PropertyInputSchema = z.union([
+  PropertyValueSchema,
+  z.object({
+    type: z.enum(['string', 'number', 'boolean', 'date']),
+    value: PropertyValueSchema,
+  }),
+]);
+
+const PropertyFilterSchema = z.object({
+  key: z.string().min(1, 'Property key cannot be empty'),
+  op: z.enum(['eq', 'ne', 'lt', 'lte', 'gt', 'gte']).default('eq'),
+  value: PropertyInputSchema,
+});
+
+const IsoDateSchema = z.string().refine(
+  value => Number.isFinite(Date.parse(value)),
+  'Expected an ISO 8601 date'
+);
+
+const TagsSchema = z.array(z.string().min(1, 'Tag cannot be empty'));
+
+const TagModeSchema = z.enum(['all', 'any']);
+
 // Entity schemas
 const EntitySchema = z.object({
   name: z.string().min(1, 'Entity name cannot be empty'),
   entityType: z.string().min(1, 'Entity type cannot be empty'),
   observations: z.array(z.string()).min(1, 'At least one observation is required'),
-});
+  tags: TagsSchema.optional(),
+}).merge(ProvenanceSchema);
 
 const RelationSchema = z.object({
   from: z.string().min(1, 'From entity cannot be empty'),
@@ -18,14 +66,60 @@ const RelationSchema = z.object({
   relationType: z.string().min(1, 'Relation type cannot be empty'),
 });
 
+const RelationInputSchema = RelationSchema.extend({
+  weight: z.number().positive().optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  metadata: z.record(z.unknown()).optional(),
+  validFrom: IsoDateSchema.optional(),
+  validTo: IsoDateSchema.optional(),
+});
+
+const RelationClosureSchema = RelationSchema.extend({
+  validTo: IsoDateSchema.optional()
+    .describe('When the relation stopped holding (default: now)'),
+});
+
 const ObservationUpdateSchema = z.object({
   entityName: z.string().min(1, 'Entity name cannot be empty'),
   contents: z.array(z.string()).min(1, 'At least one observation is required'),
-});
+}).merge(ProvenanceSchema);
 
 const ObservationDeletionSchema = z.object({
   entityName: z.string().min(1, 'Entity name cannot be empty'),
-  observations: z.array(z.string()).min(1, 'At least one observation to delete is required'),
+  observations: z.array(z.string()).min(1, 'At least one observation to delete is required').optional(),
+  ids: z.array(z.number().int().positive()).min(1, 'At least one observation id is required').optional(),
+}).refine(
+  deletion => deletion.observations !== undefined || deletion.ids !== undefined,
+  'Either observations or ids is required'
+);
+
+const ObservationEditSchema = z.object({
+  entityName: z.string().min(1, 'Entity name cannot be empty'),
+  id: z.number().int().positive(),
+  content: z.string().min(1, 'Observation content cannot be empty'),
+});
+
+const OntologySchema = z.object({
+  mode: z.enum(['strict', 'lenient']).default('lenient'),
+  entityTypes: z.array(z.object({
+    name: z.string().min(1, 'Entity type cannot be empty'),
+    synonyms: z.array(z.string().min(1, 'Synonym cannot be empty')).optional(),
+  })).min(1, 'At least one entity type is required'),
+  relationTypes: z.array(z.object({
+    name: z.string().min(1, 'Relation type cannot be empty'),
+    domain: z.array(z.string().min(1)).min(1).optional(),
+    range: z.array(z.string().min(1)).min(1).optional(),
+  })).optional(),
+});
+
+const TagUpdateSchema = z.object({
+  entityName: z.string().min(1, 'Entity name cannot be empty'),
+  tags: TagsSchema.min(1, 'At least one tag is required'),
+});
+
+const AliasUpdateSchema = z.object({
+  entityName: z.string().min(1, 'Entity name cannot be empty'),
+  aliases: z.array(z.string().min(1, 'Alias cannot be empty')).min(1, 'At least one alias is required'),
 });
 
 // Tool input schemas
@@ -45,31 +139,80 @@ export const toolSchemas = {
   
   search_nodes: z.object({
     query: z.string().min(1, 'Search query cannot be empty'),
+    queryMode: z.enum(['simple', 'advanced']).default('simple').optional()
+      .describe('advanced passes FTS5 query syntax through'),
+    weights: z.object({
+      name: z.number().min(0).optional(),
+      entityType: z.number().min(0).optional(),
+      observations: z.number().min(0).optional(),
+      aliases: z.number().min(0).optional(),
+    }).optional()
+      .describe('bm25 weight per column; higher weighs matches in that column more'),
+    resultMode: z.enum(['full', 'matches']).default('full').optional()
+      .describe('matches returns only the observations that matched'),
     limit: z.number().int().positive().default(20).optional(),
+    cursor: z.string().min(1, 'Cursor cannot be empty').optional()
+      .describe('nextCursor of the previous page of the same search; offset-based, so not stable across writes'),
+    boostContext: z.enum(['none', 'current', 'predicted']).default('none').optional()
+      .describe('Rank one context higher when searching all contexts'),
+    boostFactor: z.number().min(1).default(1.5).optional(),
     context: z.string().optional(),
     allContexts: z.boolean().default(false).optional(),
+    includeProvenance: z.boolean().default(false).optional(),
+    propertyFilters: z.array(PropertyFilterSchema).optional()
+      .describe('Only return entities whose properties match every filter'),
+    tags: TagsSchema.optional()
+      .describe('Only return entities with these tags'),
+    tagMode: TagModeSchema.default('all').optional(),
+    entityTypes: z.array(z.string().min(1, 'Entity type cannot be empty')).optional()
+      .describe('Only return entities of one of these types'),
+    createdAfter: IsoDateSchema.optional(),
+    createdBefore: IsoDateSchema.optional(),
+    updatedAfter: IsoDateSchema.optional(),
+    updatedBefore: IsoDateSchema.optional(),
+    minRelations: z.number().int().min(0).optional()
+      .describe('Only return entities with at least this many current relations'),
+    hasRelationType: z.string().min(1, 'Relation type cannot be empty').optional()
+      .describe('Only return entities with a current relation of this type'),
+    asOf: IsoDateSchema.optional()
+      .describe('Search the graph as it was recorded at this time'),
   }),
   
   read_graph: z.object({
     limit: z.number().int().positive().optional(),
     offset: z.number().int().min(0).default(0).optional(),
     context: z.string().optional(),
+    propertyFilters: z.array(PropertyFilterSchema).optional()
+      .describe('Only return entities whose properties match every filter'),
+    asOf: IsoDateSchema.optional()
+      .describe('Return the graph as it was recorded at this time'),
   }),
   
   open_nodes: z.object({
     names: z.array(z.string()).min(1, 'At least one entity name is required'),
     context: z.string().optional(),
+    includeProvenance: z.boolean().default(false).optional(),
+    asOf: IsoDateSchema.optional()
+      .describe('Return the graph as it was recorded at this time'),
   }),
   
   // Relation operations
   create_relations: z.object({
-    relations: z.array(RelationSchema).min(1, 'At least one relation is required'),
+    relations: z.array(RelationInputSchema).min(1, 'At least one relation is required'),
+    onConflict: z.enum(['ignore', 'reinforce']).default('ignore').optional()
+      .describe('ignore leaves existing relations untouched, reinforce increments their count and updates attributes'),
+    context: z.string().optional(),
   }),
   
   delete_relations: z.object({
     relations: z.array(RelationSchema).min(1, 'At least one relation is required'),
   }),
   
+  close_relations: z.object({
+    relations: z.array(RelationClosureSchema).min(1, 'At least one relation is required'),
+    context: z.string().optional(),
+  }),
+  
   // Observation operations
   add_observations: z.object({
     observations: z.array(ObservationUpdateSchema).min(1, 'At least one observation update is required'),
@@ -79,11 +222,121 @@ export const toolSchemas = {
     deletions: z.array(ObservationDeletionSchema).min(1, 'At least one deletion is required'),
   }),
   
+  get_observations: ProvenanceFilterSchema.extend({
+    entityName: z.string().min(1, 'Entity name cannot be empty').optional(),
+    limit: z.number().int().positive().optional(),
+    context: z.string().optional(),
+  }).refine(
+    input => input.entityName !== undefined || hasProvenanceCriterion(input),
+    'Either entityName or a provenance filter is required'
+  ),
+  
+  update_observations: z.object({
+    updates: z.array(ObservationEditSchema).min(1, 'At least one update is required'),
+    context: z.string().optional(),
+  }),
+  
+  delete_observations_by_provenance: ProvenanceFilterSchema.extend({
+    context: z.string().optional()
+      .describe('Specific context to delete from. If not provided, all contexts are processed'),
+    dryRun: z.boolean().default(false).optional()
+      .describe('List the matching observations without deleting them'),
+  }).refine(hasProvenanceCriterion, 'At least one provenance filter is required'),
+  
+  // Change history
+  get_entity_history: z.object({
+    entityName: z.string().min(1, 'Entity name cannot be empty'),
+    includeRelations: z.boolean().default(true).optional()
+      .describe('Include changes to relations from or to the entity'),
+    limit: z.number().int().positive().optional(),
+    context: z.string().optional(),
+  }),
+  
+  // Property operations
+  set_properties: z.object({
+    updates: z.array(z.object({
+      entityName: z.string().min(1, 'Entity name cannot be empty'),
+      properties: z.record(z.union([PropertyInputSchema, z.null()]))
+        .refine(properties => Object.keys(properties).length > 0, 'At least one property is required')
+        .describe('Values to set by key; null removes the property'),
+    })).min(1, 'At least one update is required'),
+    context: z.string().optional(),
+  }),
+  
+  // Tags
+  add_tags: z.object({
+    updates: z.array(TagUpdateSchema).min(1, 'At least one update is required'),
+    context: z.string().optional(),
+  }),
+  
+  remove_tags: z.object({
+    updates: z.array(TagUpdateSchema).min(1, 'At least one update is required'),
+    context: z.string().optional(),
+  }),
+  
+  find_by_tags: z.object({
+    tags: TagsSchema.min(1, 'At least one tag is required'),
+    mode: TagModeSchema.default('all').optional(),
+    limit: z.number().int().positive().optional(),
+    context: z.string().optional(),
+  }),
+  
+  // Entity aliases
+  add_aliases: z.object({
+    updates: z.array(AliasUpdateSchema).min(1, 'At least one update is required'),
+    context: z.string().optional(),
+  }),
+  
+  remove_aliases: z.object({
+    updates: z.array(AliasUpdateSchema).min(1, 'At least one update is required'),
+    context: z.string().optional(),
+  }),
+  
   // Entity deletion
+  rename_entity: z.object({
+    oldName: z.string().min(1, 'Entity name cannot be empty'),
+    newName: z.string().min(1, 'Entity name cannot be empty'),
+    context: z.string().optional(),
+  }),
+  
+  merge_entities: z.object({
+    targetName: z.string().min(1, 'Entity name cannot be empty'),
+    sourceNames: z.array(z.string().min(1, 'Entity name cannot be empty'))
+      .min(1, 'At least one source entity is required'),
+    context: z.string().optional(),
+  }),
+  
   delete_entities: z.object({
     entityNames: z.array(z.string()).min(1, 'At least one entity name is required'),
   }),
   
+  // Undo
+  undo: z.object({
+    count: z.number().int().positive().default(1)
+      .describe('Number of operations to undo, newest first'),
+    context: z.string().optional(),
+  }),
+  
+  // Trash
+  list_trash: z.object({
+    limit: z.number().int().positive().optional(),
+    context: z.string().optional(),
+  }),
+  
+  restore_trash: z.object({
+    entityNames: z.array(z.string().min(1, 'Entity name cannot be empty'))
+      .min(1, 'At least one entity name is required'),
+    context: z.string().optional(),
+  }),
+  
+  purge_trash: z.object({
+    entityNames: z.array(z.string().min(1, 'Entity name cannot be empty')).optional()
+      .describe('Only purge these entities (default: everything in the trash)'),
+    olderThanDays: z.number().nonnegative().optional()
+      .describe('Only purge entities deleted at least this many days ago'),
+    context: z.string().optional(),
+  }),
+  
   // Transaction management
   begin_transaction: z.object({
     name: z.string().optional().describe('Optional transaction name for debugging'),
@@ -105,6 +358,25 @@ export const toolSchemas = {
     confirmRestore: z.boolean().describe('Must be true to confirm the restore operation'),
   }),
   
+  // Ontology
+  get_ontology: z.object({
+    context: z.string().optional(),
+  }),
+  
+  set_ontology: z.object({
+    ontology: OntologySchema.nullable()
+      .describe('null removes the ontology'),
+    context: z.string().optional(),
+  }),
+  
+  // Search index maintenance
+  maintain_search_index: z.object({
+    action: z.enum(['check', 'rebuild', 'optimize']).default('check').optional()
+      .describe('check reports drift, rebuild re-indexes every entity, optimize merges index segments'),
+    context: z.string().optional()
+      .describe('Specific context to maintain. If not provided, all contexts are processed'),
+  }),
+  
   // Graph traversal operations
   get_neighbors: z.object({
     entityName: z.string().min(1, 'Entity name is required'),
@@ -118,6 +390,10 @@ export const toolSchemas = {
       .describe('Include relation details in response'),
     context: z.string().optional()
       .describe('Specific context to search in'),
+    crossContext: z.boolean().default(false).optional()
+      .describe('Hop between contexts through entities that exist in several of them'),
+    asOf: IsoDateSchema.optional()
+      .describe('Traverse the graph as it was recorded at this time (default: now)'),
   }),
   
   find_shortest_path: z.object({
@@ -129,8 +405,16 @@ export const toolSchemas = {
       .describe('Filter by specific relation type'),
     maxDepth: z.number().int().min(1).max(10).default(6).optional()
       .describe('Maximum path length to search (1-10)'),
+    weighted: z.boolean().default(false).optional()
+      .describe('Use Dijkstra with per-relation costs instead of counting hops'),
+    relationWeights: z.record(z.number().nonnegative()).optional()
+      .describe('Cost per relation type for weighted search (default: 1 / relation weight, or 1)'),
     context: z.string().optional()
       .describe('Specific context to search in'),
+    crossContext: z.boolean().default(false).optional()
+      .describe('Hop between contexts through entities that exist in several of them'),
+    asOf: IsoDateSchema.optional()
+      .describe('Traverse the graph as it was recorded at this time (default: now)'),
   }),
 };
 
@@ -143,14 +427,34 @@ export type ReadGraphInput = z.infer<typeof toolSchemas.read_graph>;
 export type OpenNodesInput = z.infer<typeof toolSchemas.open_nodes>;
 export type CreateRelationsInput = z.infer<typeof toolSchemas.create_relations>;
 export type DeleteRelationsInput = z.infer<typeof toolSchemas.delete_relations>;
+export type CloseRelationsInput = z.infer<typeof toolSchemas.close_relations>;
 export type AddObservationsInput = z.infer<typeof toolSchemas.add_observations>;
 export type DeleteObservationsInput = z.infer<typeof toolSchemas.delete_observations>;
+export type GetObservationsInput = z.infer<typeof toolSchemas.get_observations>;
+export type UpdateObservationsInput = z.infer<typeof toolSchemas.update_observations>;
+export type DeleteObservationsByProvenanceInput = z.infer<typeof toolSchemas.delete_observations_by_provenance>;
+export type GetEntityHistoryInput = z.infer<typeof toolSchemas.get_entity_history>;
+export type SetPropertiesInput = z.infer<typeof toolSchemas.set_properties>;
+export type AddTagsInput = z.infer<typeof toolSchemas.add_tags>;
+export type RemoveTagsInput = z.infer<typeof toolSchemas.remove_tags>;
+export type FindByTagsInput = z.infer<typeof toolSchemas.find_by_tags>;
+export type AddAliasesInput = z.infer<typeof toolSchemas.add_aliases>;
+export type RemoveAliasesInput = z.infer<typeof toolSchemas.remove_aliases>;
+export type RenameEntityInput = z.infer<typeof toolSchemas.rename_entity>;
+export type MergeEntitiesInput = z.infer<typeof toolSchemas.merge_entities>;
 export type DeleteEntitiesInput = z.infer<typeof toolSchemas.delete_entities>;
+export type UndoInput = z.infer<typeof toolSchemas.undo>;
+export type ListTrashInput = z.infer<typeof toolSchemas.list_trash>;
+export type RestoreTrashInput = z.infer<typeof toolSchemas.restore_trash>;
+export type PurgeTrashInput = z.infer<typeof toolSchemas.purge_trash>;
 export type BeginTransactionInput = z.infer<typeof toolSchemas.begin_transaction>;
 export type CommitTransactionInput = z.infer<typeof toolSchemas.commit_transaction>;
 export type RollbackTransactionInput = z.infer<typeof toolSchemas.rollback_transaction>;
 export type CreateBackupInput = z.infer<typeof toolSchemas.create_backup>;
 export type RestoreBackupInput = z.infer<typeof toolSchemas.restore_backup>;
+export type GetOntologyInput = z.infer<typeof toolSchemas.get_ontology>;
+export type SetOntologyInput = z.infer<typeof toolSchemas.set_ontology>;
+export type MaintainSearchIndexInput = z.infer<typeof toolSchemas.maintain_search_index>;
 export type GetNeighborsInput = z.infer<typeof toolSchemas.get_neighbors>;
 export type FindShortestPathInput = z.infer<typeof toolSchemas.find_shortest_path>;
 
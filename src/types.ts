@@ -18,19 +18,95 @@ export interface Relation {
 export interface EntityRow {
   name: string;
   entity_type: string;
-  observations: string;
   created_at: number;
   updated_at: number;
 }
 
+export interface ObservationRow {
+  id: number;
+  entity_name: string;
+  content: string;
+  source: string | null;
+  session_id: string | null;
+  agent: string | null;
+  confidence: number | null;
+  created_at: number;
+}
+
+export interface PropertyRow {
+  entity_name: string;
+  key: string;
+  value_type: PropertyType;
+  value_text: string | null;
+  value_number: number | null;
+  updated_at: number;
+}
+
 export interface RelationRow {
   id: number;
   from_entity: string;
   to_entity: string;
   relation_type: string;
+  weight: number | null;
+  confidence: number | null;
+  // JSON object
+  metadata: string | null;
+  count: number;
+  valid_from: number | null;
+  valid_to: number | null;
+  created_at: number;
+}
+
+export interface AliasRow {
+  alias: string;
+  entity_name: string;
+  created_at: number;
+}
+
+export interface HistoryRow {
+  id: number;
+  entity_name: string;
+  related_entity: string | null;
+  relation_id: number | null;
+  operation: HistoryOperation;
+  // JSON snapshots; for entities only where delta cannot rebuild them
+  before: string | null;
+  after: string | null;
+  created_at: number;
+  // NULL for entries recorded before operations were tracked
+  operation_id: number | null;
+  // JSON EntityDelta of an entity change
+  delta: string | null;
+}
+
+export interface OperationRow {
+  id: number;
+  name: string;
+  undone_by: number | null;
   created_at: number;
 }
 
+export interface TrashRow {
+  id: number;
+  entity_name: string;
+  // JSON TrashPayload
+  payload: string;
+  deleted_at: number;
+  operation_id: number | null;
+}
+
+// Rows removed with a trashed entity, put back unchanged on restore
+export interface TrashPayload {
+  entity: EntityRow;
+  observations: ObservationRow[];
+  properties: PropertyRow[];
+  relations: RelationRow[];
+  // Absent in items trashed before aliases existed
+  aliases?: string[];
+  // Absent in items trashed before tags existed
+  tags?: string[];
+}
+
 export interface GraphResult {
   entities: EntityResult[];
   relations: RelationResult[];
@@ -41,18 +117,270 @@ export interface GraphResult {
     limit?: number;
     hasMore: boolean;
   };
+  // Only present on search results
+  page?: SearchPage;
+}
+
+// Where a page of search results sits among all hits of the search
+export interface SearchPage {
+  // Hits across every searched context, not just this page
+  total: number;
+  limit: number;
+  hasMore: boolean;
+  // Pass back as cursor to get the next page; set by MultiDatabaseManager
+  nextCursor?: string;
 }
 
 export interface EntityResult extends Entity {
   type: 'entity';
   _context?: string;
+  _distance?: number;
+  // Aligned with observations; only present when provenance is requested
+  provenance?: ObservationProvenanceInfo[];
+  // Only present when the entity has properties
+  properties?: Record<string, PropertyValue>;
+  // Only present when the entity has aliases
+  aliases?: string[];
+  // Only present when the entity has tags
+  tags?: string[];
+  // The alias a lookup matched, when the entity was not requested by its name
+  matchedAlias?: string;
+  // What a lenient ontology objected to when the entity was written
+  warnings?: string[];
+  // Why the entity matched; only present on search_nodes hits
+  match?: SearchMatch;
+}
+
+// Relevance of a search hit and the observations that matched
+export interface SearchMatch {
+  // Negated bm25 over the weighted columns; higher is more relevant (0 for substring matches).
+  // Searches across contexts rescale it to their combined document frequencies and apply any boost.
+  score: number;
+  // Positions of the matching observations in the entity's full observation list
+  observations: number[];
+  // The matching observations with matched terms wrapped in ** markers
+  highlights: string[];
+  // A short highlighted excerpt around the best match, from any column
+  snippet: string;
+}
+
+// bm25 weight of each indexed column; unset columns keep their defaults
+export interface SearchWeights {
+  name?: number;
+  entityType?: number;
+  observations?: number;
+  aliases?: number;
+}
+
+// 'matches' returns only the observations that matched instead of all of them
+export type SearchResultMode = 'full' | 'matches';
+
+// Context whose hits a search across all contexts ranks higher: the current one,
+// or the one ContextConfidenceScorer predicts for the query
+export type SearchContextBoost = 'none' | 'current' | 'predicted';
+
+export type PropertyType = 'string' | 'number' | 'boolean' | 'date';
+
+// Dates are ISO 8601 strings
+export type PropertyValue = string | number | boolean;
+
+export interface TypedPropertyValue {
+  type: PropertyType;
+  value: PropertyValue;
+}
+
+// Untyped values are inferred: ISO 8601 strings become dates
+export type PropertyInput = PropertyValue | TypedPropertyValue;
+
+export interface PropertyUpdate {
+  entityName: string;
+  // null removes the property
+  properties: Record<string, PropertyInput | null>;
+}
+
+export type PropertyOperator = 'eq' | 'ne' | 'lt' | 'lte' | 'gt' | 'gte';
+
+export interface TagUpdate {
+  entityName: string;
+  tags: string[];
 }
 
-export interface RelationResult extends Relation {
+// Whether entities must carry every given tag or at least one of them
+export type TagMatchMode = 'all' | 'any';
+
+// Matches entities that have the property with a value of the same type satisfying op
+export interface PropertyFilter {
+  key: string;
+  op: PropertyOperator;
+  value: PropertyInput;
+}
+
+// Optional strength and annotations of a relation
+export interface RelationAttributes {
+  // Edge strength; higher is stronger and cheaper to traverse in weighted path search
+  weight?: number;
+  // 0..1
+  confidence?: number;
+  metadata?: Record<string, unknown>;
+}
+
+// When a relation holds, as ISO 8601 timestamps; a missing bound is open-ended
+export interface RelationValidity {
+  validFrom?: string;
+  validTo?: string;
+}
+
+export interface RelationResult extends Relation, RelationAttributes, RelationValidity {
   type: 'relation';
+  // Times the relation has been asserted (see RelationConflictMode)
+  count?: number;
+  // Aliases given for either end when the relation was created
+  matchedAliases?: { from?: string; to?: string };
+  // What a lenient ontology objected to when the relation was written
+  warnings?: string[];
+  _context?: string;
+}
+
+// Who or what wrote an observation
+export interface ObservationProvenance {
+  source?: string;
+  sessionId?: string;
+  agent?: string;
+  // 0..1
+  confidence?: number;
+}
+
+export interface ObservationProvenanceInfo extends ObservationProvenance {
+  id: number;
+  // ISO 8601 timestamp
+  createdAt: string;
+}
+
+export interface ObservationRecord extends ObservationProvenanceInfo {
+  entityName: string;
+  content: string;
+  // The alias the update was addressed to, when it was not the entity name
+  matchedAlias?: string;
+  _context?: string;
+}
+
+export type HistoryOperation =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'add_observations'
+  | 'update_observations'
+  | 'delete_observations'
+  | 'set_properties'
+  | 'create_relation'
+  | 'update_relation'
+  | 'close_relation'
+  | 'delete_relation'
+  | 'restore'
+  | 'restore_relation'
+  | 'rename'
+  | 'merge'
+  | 'add_aliases'
+  | 'remove_aliases'
+  | 'add_tags'
+  | 'remove_tags'
+  | 'undo';
+
+// Entity snapshots include observation provenance and properties
+export type HistorySnapshot = EntityResult | RelationResult;
+
+export interface HistoryEntry {
+  id: number;
+  entityName: string;
+  operation: HistoryOperation;
+  // null when the entity or relation did not exist on that side of the change
+  before: HistorySnapshot | null;
+  after: HistorySnapshot | null;
+  // ISO 8601 timestamp
+  changedAt: string;
+  _context?: string;
+}
+
+export interface HistoryOptions {
+  // Also return changes to relations pointing at the entity (default: true)
+  includeRelations?: boolean;
+  limit?: number;
+}
+
+export interface MergeResult {
+  entity: EntityResult;
+  // Source entities folded into the target, now its aliases
+  merged: string[];
+  relationsMoved: number;
+  // Relations that became self-loops or duplicates of the target's relations
+  relationsDropped: number;
+  _context?: string;
+}
+
+export interface UndoneOperation {
+  id: number;
+  // The mutation that was reverted, e.g. 'delete_observations'
+  name: string;
+  // ISO 8601 timestamp
+  performedAt: string;
+  // History entries that were reverted
+  changes: number;
+  // Entities whose state was reverted, including either end of reverted relations
+  entities: string[];
   _context?: string;
 }
 
+export interface TrashItem {
+  id: number;
+  entity: EntityResult;
+  // Relations from or to the entity when it was deleted
+  relations: RelationResult[];
+  // ISO 8601 timestamp
+  deletedAt: string;
+  _context?: string;
+}
+
+export interface TrashPurgeOptions {
+  // Only purge these entities (default: all)
+  entityNames?: string[];
+  // Only purge items deleted at least this many days ago
+  olderThanDays?: number;
+}
+
+// strict rejects writes the ontology does not allow; lenient stores them with warnings
+export type OntologyMode = 'strict' | 'lenient';
+
+export interface OntologyEntityType {
+  name: string;
+  // Alternative spellings stored as name, e.g. 'Person', 'people', 'human'
+  synonyms?: string[];
+}
+
+export interface OntologyRelationType {
+  name: string;
+  // Allowed entity types of the from and to ends (default: any)
+  domain?: string[];
+  range?: string[];
+}
+
+// Per-context vocabulary of entity and relation types
+export interface Ontology {
+  mode: OntologyMode;
+  entityTypes: OntologyEntityType[];
+  // Any relation type is allowed when absent
+  relationTypes?: OntologyRelationType[];
+}
+
+export interface ObservationFilter {
+  entityName?: string;
+  source?: string;
+  sessionId?: string;
+  agent?: string;
+  minConfidence?: number;
+  maxConfidence?: number;
+  limit?: number;
+}
+
 import { CacheStats } from './utils/cache-interface.js';
 
 export interface BloomStats {
@@ -67,8 +395,10 @@ export interface BloomStats {
 export interface DatabaseStats {
   totalEntities: number;
   totalRelations: number;
+  totalObservations: number;
   entityTypes: Record<string, number>;
   databaseSizeKb: number;
+  schemaVersion: number;
   cacheStats: {
     entity: CacheStats;
     search: CacheStats;
@@ -76,10 +406,63 @@ export interface DatabaseStats {
   bloomStats: BloomStats;
 }
 
+export type SearchIndexAction = 'check' | 'rebuild' | 'optimize';
+
+export interface SearchIndexStatus {
+  entities: number;
+  indexed: number;
+  missing: number;
+  orphaned: number;
+  integrityOk: boolean;
+  integrityError?: string;
+  consistent: boolean;
+}
+
+export interface SearchIndexReport {
+  action: SearchIndexAction;
+  before: SearchIndexStatus;
+  after: SearchIndexStatus;
+}
+
+/**
+ * How search_nodes reads a query: 'simple' matches any term as a prefix,
+ * 'advanced' passes FTS5 syntax through (phrases, AND/OR/NOT, NEAR, column filters)
+ */
+export type SearchQueryMode = 'simple' | 'advanced';
+
 export interface SearchOptions {
   query: string;
+  queryMode?: SearchQueryMode;
+  weights?: SearchWeights;
+  resultMode?: SearchResultMode;
   limit?: number;
+  // Hits to skip in this database's ranking
+  offset?: number;
+  // Opaque position returned as nextCursor by a previous page of the same search.
+  // It counts the hits already returned, so writes between pages shift it.
+  cursor?: string;
+  // Multiplies the scores of one context's hits when searching all contexts (default factor: 1.5)
+  boostContext?: SearchContextBoost;
+  boostFactor?: number;
   context?: string;
+  includeProvenance?: boolean;
+  propertyFilters?: PropertyFilter[];
+  // Only match entities with these tags, combined by tagMode (default: 'all')
+  tags?: string[];
+  tagMode?: TagMatchMode;
+  // Only match entities of one of these types
+  entityTypes?: string[];
+  // ISO 8601 bounds on created_at / updated_at (after is inclusive, before exclusive)
+  createdAfter?: string;
+  createdBefore?: string;
+  updatedAfter?: string;
+  updatedBefore?: string;
+  // Only match entities with at least this many current relations, in either direction
+  minRelations?: number;
+  // Only match entities with a current relation of this type, in either direction
+  hasRelationType?: string;
+  // Search the graph as it was recorded at this ISO 8601 time
+  asOf?: string;
 }
 
 export interface GetNeighborsOptions {
@@ -88,42 +471,79 @@ export interface GetNeighborsOptions {
   depth: number;
   includeRelations: boolean;
   context?: string;
+  crossContext?: boolean;
+  // Traverse the graph as recorded at this ISO 8601 time (default: now)
+  asOf?: string;
 }
 
 export interface FindShortestPathOptions {
   bidirectional: boolean;
   relationType?: string;
   maxDepth: number;
+  weighted?: boolean;
+  relationWeights?: Record<string, number>;
   context?: string;
+  crossContext?: boolean;
+  // Traverse the graph as recorded at this ISO 8601 time (default: now)
+  asOf?: string;
 }
 
 export interface ShortestPathResult {
   found: boolean;
   path: string[];
+  relations: RelationResult[];
   distance: number;
+  cost?: number;
   nodesExplored?: number;
 }
 
-export interface CreateEntityInput {
+export interface CreateEntityInput extends ObservationProvenance {
   name: string;
   entityType: string;
   observations: string[];
+  // Added to the tags an existing entity already has
+  tags?: string[];
 }
 
-export interface CreateRelationInput {
+export interface CreateRelationInput extends RelationAttributes, RelationValidity {
   from: string;
   to: string;
   relationType: string;
 }
 
-export interface ObservationUpdate {
+// Ends the open relation at validTo (default: now) instead of deleting it
+export interface RelationClosure extends Relation {
+  validTo?: string;
+}
+
+/**
+ * What creating an existing relation does: 'ignore' leaves it untouched,
+ * 'reinforce' increments its count and overwrites any attributes given
+ */
+export type RelationConflictMode = 'ignore' | 'reinforce';
+
+export interface ObservationUpdate extends ObservationProvenance {
   entityName: string;
   contents: string[];
 }
 
 export interface ObservationDeletion {
   entityName: string;
-  observations: string[];
+  // Match by exact content, by id, or both
+  observations?: string[];
+  ids?: number[];
+}
+
+// Alternate names of an entity; lookups by an alias resolve to the entity
+export interface AliasUpdate {
+  entityName: string;
+  aliases: string[];
+}
+
+export interface ObservationEdit {
+  entityName: string;
+  id: number;
+  content: string;
 }
 
 // Multi-database configuration types
@@ -161,6 +581,7 @@ export interface ContextInfo {
     entities: number;
     relations: number;
     sizeKb: number;
+    schemaVersion: number;
   }>;
   lastDetection: {
     topChoice: ContextScore;
@@ -24,18 +24,7 @@ export class CompressionUtils {
     
     try {
       // Compress individual large observations
-      const processedObservations = observations.map((obs, index) => {
-        if (obs.length > this.MIN_COMPRESS_LENGTH) {
-          const compressed = gzipSync(obs);
-          const base64 = compressed.toString('base64');
-          if (base64.length < obs.length) {
-            return `COMPRESSED:${this.COMPRESSION_VERSION}:${base64}`;
-          }
-        }
-        return obs;
-      });
-      
-      return stringifyObservations(processedObservations);
+      return stringifyObservations(observations.map(obs => this.compressObservation(obs)));
     } catch (error) {
       // Fall back to uncompressed on error
       console.error('Compression error:', error);
@@ -44,29 +33,46 @@ export class CompressionUtils {
     return json;
   }
   
+  /**
+   * Compress a single observation when that saves space
+   */
+  static compressObservation(observation: string): string {
+    if (observation.length > this.MIN_COMPRESS_LENGTH) {
+      const compressed = gzipSync(observation);
+      const base64 = compressed.toString('base64');
+      if (base64.length < observation.length) {
+        return `COMPRESSED:${this.COMPRESSION_VERSION}:${base64}`;
+      }
+    }
+    return observation;
+  }
+  
   /**
    * Decompress observations if compressed
    */
   static decompressObservations(data: string): string[] {
-    const observations = parseObservations(data);
-    
-    return observations.map((obs: string) => {
-      if (obs.startsWith('COMPRESSED:')) {
-        try {
-          // Handle versioned format: COMPRESSED:1:base64data
-          const parts = obs.split(':');
-          if (parts.length >= 3) {
-            const base64 = parts.slice(2).join(':'); // Handle colons in base64
-            const compressed = Buffer.from(base64, 'base64');
-            return gunzipSync(compressed).toString();
-          }
-        } catch (error) {
-          console.error('Decompression error:', error);
-          return obs; // Return original if decompression fails
+    return parseObservations(data).map(obs => this.decompressObservation(obs));
+  }
+  
+  /**
+   * Decompress a single stored observation (plain text passes through)
+   */
+  static decompressObservation(stored: string): string {
+    if (stored.startsWith('COMPRESSED:')) {
+      try {
+        // Handle versioned format: COMPRESSED:1:base64data
+        const parts = stored.split(':');
+        if (parts.length >= 3) {
+          const base64 = parts.slice(2).join(':'); // Handle colons in base64
+          const compressed = Buffer.from(base64, 'base64');
+          return gunzipSync(compressed).toString();
         }
+      } catch (error) {
+        console.error('Decompression error:', error);
+        return stored; // Return original if decompression fails
       }
-      return obs;
-    });
+    }
+    return stored;
   }
   
   /**
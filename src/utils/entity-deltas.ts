@@ -0,0 +1,145 @@
+/**
+ * Entity Change Deltas
+ * What one write changed about an entity, and how to replay those changes,
+ * so that the change log does not have to store the whole entity every time
+ */
+
+import { ObservationProvenanceInfo, PropertyValue } from '../types.js';
+import { CompressionUtils } from './compression.js';
+
+// An observation row as stored; content may be compressed
+export interface StoredObservation extends ObservationProvenanceInfo {
+  content: string;
+}
+
+export interface EntityState {
+  name: string;
+  entityType: string;
+  // In id order
+  observations: StoredObservation[];
+  properties: Record<string, PropertyValue>;
+  aliases: string[];
+  tags: string[];
+}
+
+// An entity state without its observations
+export type EntityFields = Omit<EntityState, 'observations'>;
+
+// Fields that did not change are absent
+export interface EntityDelta {
+  // Only a change of case; other renames log the entity as gone and new
+  name?: string;
+  entityType?: string;
+  observationsRemoved?: number[];
+  observationsAdded?: StoredObservation[];
+  propertiesSet?: Record<string, PropertyValue>;
+  propertiesRemoved?: string[];
+  aliasesAdded?: string[];
+  aliasesRemoved?: string[];
+  tagsAdded?: string[];
+  tagsRemoved?: string[];
+}
+
+function sameObservation(a: StoredObservation, b: StoredObservation): boolean {
+  return a.id === b.id &&
+    a.createdAt === b.createdAt &&
+    a.source === b.source &&
+    a.sessionId === b.sessionId &&
+    a.agent === b.agent &&
+    a.confidence === b.confidence &&
+    (a.content === b.content ||
+      CompressionUtils.decompressObservation(a.content) === CompressionUtils.decompressObservation(b.content));
+}
+
+function difference(values: string[], others: string[]): string[] {
+  const exclude = new Set(others);
+  return values.filter(value => !exclude.has(value));
+}
+
+/**
+ * Changes that turn one state of an entity into another; null when there are none.
+ * Observations compare by content rather than its stored form, so a change of
+ * compression setting alone is not a change.
+ */
+export function diffEntityStates(before: EntityState, after: EntityState): EntityDelta | null {
+  const delta = diffEntityFields(before, after);
+
+  const beforeObservations = new Map(before.observations.map(obs => [obs.id, obs]));
+  const afterIds = new Set(after.observations.map(obs => obs.id));
+  const removed = before.observations.filter(obs => !afterIds.has(obs.id)).map(obs => obs.id);
+  const added: StoredObservation[] = [];
+  for (const obs of after.observations) {
+    const previous = beforeObservations.get(obs.id);
+    if (!previous) {
+      added.push(obs);
+    } else if (!sameObservation(previous, obs)) {
+      // Edited in place: replayed as removed and added again under the same id
+      removed.push(obs.id);
+      added.push(obs);
+    }
+  }
+  if (removed.length > 0) delta.observationsRemoved = removed;
+  if (added.length > 0) delta.observationsAdded = added;
+
+  return Object.keys(delta).length > 0 ? delta : null;
+}
+
+// Changes to everything but the observations, which callers that track them add
+export function diffEntityFields(before: EntityFields, after: EntityFields): EntityDelta {
+  const delta: EntityDelta = {};
+
+  if (before.name !== after.name) delta.name = after.name;
+  if (before.entityType !== after.entityType) delta.entityType = after.entityType;
+
+  const set: Record<string, PropertyValue> = {};
+  for (const [key, value] of Object.entries(after.properties)) {
+    if (before.properties[key] !== value) set[key] = value;
+  }
+  const unset = Object.keys(before.properties).filter(key => !(key in after.properties));
+  if (Object.keys(set).length > 0) delta.propertiesSet = set;
+  if (unset.length > 0) delta.propertiesRemoved = unset;
+
+  const aliasesAdded = difference(after.aliases, before.aliases);
+  const aliasesRemoved = difference(before.aliases, after.aliases);
+  const tagsAdded = difference(after.tags, before.tags);
+  const tagsRemoved = difference(before.tags, after.tags);
+  if (aliasesAdded.length > 0) delta.aliasesAdded = aliasesAdded;
+  if (aliasesRemoved.length > 0) delta.aliasesRemoved = aliasesRemoved;
+  if (tagsAdded.length > 0) delta.tagsAdded = tagsAdded;
+  if (tagsRemoved.length > 0) delta.tagsRemoved = tagsRemoved;
+
+  return delta;
+}
+
+function applyToList(values: string[], added: string[] = [], removed: string[] = []): string[] {
+  const exclude = new Set(removed);
+  return Array.from(new Set([...values.filter(value => !exclude.has(value)), ...added]));
+}
+
+// The state a delta leads to; the given state is left as it is
+export function applyEntityDelta(state: EntityState, delta: EntityDelta): EntityState {
+  const removed = new Set(delta.observationsRemoved ?? []);
+  const observations = state.observations
+    .filter(obs => !removed.has(obs.id))
+    .concat(delta.observationsAdded ?? [])
+    .sort((a, b) => a.id - b.id);
+
+  const properties: Record<string, PropertyValue> = { ...state.properties, ...delta.propertiesSet };
+  for (const key of delta.propertiesRemoved ?? []) {
+    delete properties[key];
+  }
+
+  return {
+    name: delta.name ?? state.name,
+    entityType: delta.entityType ?? state.entityType,
+    observations,
+    properties,
+    aliases: applyToList(state.aliases, delta.aliasesAdded, delta.aliasesRemoved),
+    tags: applyToList(state.tags, delta.tagsAdded, delta.tagsRemoved)
+  };
+}
+
+export function sameEntityState(a: EntityState | null, b: EntityState | null): boolean {
+  if (a === null || b === null) return a === b;
+  return diffEntityStates(a, b) === null;
+}
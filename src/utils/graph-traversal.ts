@@ -0,0 +1,358 @@
+/**
+ * Graph Traversal Algorithms
+ * Storage-agnostic BFS and shortest-path search over a knowledge graph,
+ * driven by an edge expander callback
+ */
+
+export type TraversalDirection = 'outgoing' | 'incoming' | 'both';
+
+export interface TraversalEdge {
+  from: string;
+  to: string;
+  relationType: string;
+  // Edge strength, used by weighted search
+  weight?: number;
+  // Validity interval (ISO 8601); relations of the same type between the same
+  // entities are separate edges when their intervals differ
+  validFrom?: string;
+  validTo?: string;
+  // Source database when a traversal spans several contexts
+  _context?: string;
+}
+
+/**
+ * Returns every edge touching the given node in the requested direction.
+ * Implementations are expected to hit an index (e.g. idx_from_entity / idx_to_entity).
+ */
+export type EdgeExpander<E extends TraversalEdge> = (
+  node: string,
+  direction: TraversalDirection
+) => E[];
+
+export interface TraversalResult<E extends TraversalEdge> {
+  // Hop distance keyed by lowercase node name (start node is 0)
+  distances: Map<string, number>;
+  // Original-case name for every visited node
+  names: Map<string, string>;
+  // Unique edges walked during the traversal
+  edges: E[];
+}
+
+// Node names are case-insensitive, matching the NOCASE collation in SQLite
+export function nodeKey(name: string): string {
+  return name.toLowerCase();
+}
+
+/**
+ * Cost of an edge in weighted search. A per-relation-type cost takes precedence;
+ * otherwise stronger edges are cheaper (1 / weight) and unweighted edges cost 1.
+ */
+export function edgeCost(edge: TraversalEdge, relationWeights?: Record<string, number>): number {
+  const typeCost = relationWeights?.[edge.relationType];
+  if (typeCost !== undefined) return typeCost;
+  return edge.weight !== undefined && edge.weight > 0 ? 1 / edge.weight : 1;
+}
+
+export function edgeKey(edge: TraversalEdge): string {
+  return [
+    edge._context ?? '',
+    nodeKey(edge.from),
+    nodeKey(edge.to),
+    edge.relationType,
+    edge.validFrom ?? '',
+    edge.validTo ?? ''
+  ].join('\u0000');
+}
+
+/**
+ * Level-by-level breadth-first traversal up to maxDepth hops from start
+ */
+export function breadthFirstTraversal<E extends TraversalEdge>(
+  start: string,
+  maxDepth: number,
+  direction: TraversalDirection,
+  expand: EdgeExpander<E>
+): TraversalResult<E> {
+  const startKey = nodeKey(start);
+  const distances = new Map<string, number>([[startKey, 0]]);
+  const names = new Map<string, string>([[startKey, start]]);
+  const edges: E[] = [];
+  const seenEdges = new Set<string>();
+
+  let frontier: string[] = [start];
+
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const next: string[] = [];
+
+    for (const node of frontier) {
+      const key = nodeKey(node);
+
+      for (const edge of expand(node, direction)) {
+        const eKey = edgeKey(edge);
+        if (!seenEdges.has(eKey)) {
+          seenEdges.add(eKey);
+          edges.push(edge);
+        }
+
+        // A self-loop or an edge matched in both directions yields up to two neighbors
+        const neighbors: string[] = [];
+        if (direction !== 'incoming' && nodeKey(edge.from) === key) neighbors.push(edge.to);
+        if (direction !== 'outgoing' && nodeKey(edge.to) === key) neighbors.push(edge.from);
+
+        for (const neighbor of neighbors) {
+          const neighborKey = nodeKey(neighbor);
+          if (distances.has(neighborKey)) continue;
+          distances.set(neighborKey, depth);
+          names.set(neighborKey, neighbor);
+          next.push(neighbor);
+        }
+      }
+    }
+
+    frontier = next;
+  }
+
+  return { distances, names, edges };
+}
+
+export interface PathResult<E extends TraversalEdge> {
+  found: boolean;
+  // Node names from source to target (inclusive)
+  nodes: string[];
+  // Edges along the path, in walking order, with their stored orientation
+  edges: E[];
+  // Sum of edge weights (equals edges.length for unweighted search)
+  cost: number;
+  nodesExplored: number;
+}
+
+interface SearchLink<E> {
+  name: string;
+  depth: number;
+  prev: string | null;
+  edge: E | null;
+}
+
+function reverseDirection(direction: TraversalDirection): TraversalDirection {
+  if (direction === 'outgoing') return 'incoming';
+  if (direction === 'incoming') return 'outgoing';
+  return 'both';
+}
+
+function neighborsVia(edge: TraversalEdge, key: string, direction: TraversalDirection): string[] {
+  const neighbors: string[] = [];
+  if (direction !== 'incoming' && nodeKey(edge.from) === key) neighbors.push(edge.to);
+  if (direction !== 'outgoing' && nodeKey(edge.to) === key) neighbors.push(edge.from);
+  return neighbors;
+}
+
+function notFound<E extends TraversalEdge>(nodesExplored: number): PathResult<E> {
+  return { found: false, nodes: [], edges: [], cost: -1, nodesExplored };
+}
+
+/**
+ * Unweighted shortest path using bidirectional BFS.
+ * Always grows the smaller frontier, so the explored area stays close to
+ * 2 * b^(d/2) instead of b^d on dense graphs.
+ */
+export function bidirectionalShortestPath<E extends TraversalEdge>(
+  source: string,
+  target: string,
+  maxDepth: number,
+  direction: TraversalDirection,
+  expand: EdgeExpander<E>
+): PathResult<E> {
+  const sourceKey = nodeKey(source);
+  const targetKey = nodeKey(target);
+  if (sourceKey === targetKey) {
+    return { found: true, nodes: [source], edges: [], cost: 0, nodesExplored: 1 };
+  }
+
+  const forward = new Map<string, SearchLink<E>>([
+    [sourceKey, { name: source, depth: 0, prev: null, edge: null }],
+  ]);
+  const backward = new Map<string, SearchLink<E>>([
+    [targetKey, { name: target, depth: 0, prev: null, edge: null }],
+  ]);
+  let forwardFrontier = [sourceKey];
+  let backwardFrontier = [targetKey];
+  let forwardDepth = 0;
+  let backwardDepth = 0;
+
+  while (
+    forwardFrontier.length > 0 &&
+    backwardFrontier.length > 0 &&
+    forwardDepth + backwardDepth < maxDepth
+  ) {
+    const growForward = forwardFrontier.length <= backwardFrontier.length;
+    const visited = growForward ? forward : backward;
+    const opposite = growForward ? backward : forward;
+    const frontier = growForward ? forwardFrontier : backwardFrontier;
+    const levelDirection = growForward ? direction : reverseDirection(direction);
+
+    const next: string[] = [];
+    let meeting: string | null = null;
+    let meetingLength = Infinity;
+
+    for (const key of frontier) {
+      const link = visited.get(key)!;
+      for (const edge of expand(link.name, levelDirection)) {
+        for (const neighbor of neighborsVia(edge, key, levelDirection)) {
+          const neighborKey = nodeKey(neighbor);
+          if (visited.has(neighborKey)) continue;
+          visited.set(neighborKey, { name: neighbor, depth: link.depth + 1, prev: key, edge });
+          next.push(neighborKey);
+
+          const other = opposite.get(neighborKey);
+          if (other && link.depth + 1 + other.depth < meetingLength) {
+            meeting = neighborKey;
+            meetingLength = link.depth + 1 + other.depth;
+          }
+        }
+      }
+    }
+
+    if (growForward) {
+      forwardFrontier = next;
+      forwardDepth++;
+    } else {
+      backwardFrontier = next;
+      backwardDepth++;
+    }
+
+    if (meeting !== null) {
+      const nodes: string[] = [];
+      const edges: E[] = [];
+
+      // Walk back to the source, then forward to the target
+      for (let key: string | null = meeting; key !== null; key = forward.get(key)!.prev) {
+        const link = forward.get(key)!;
+        nodes.unshift(link.name);
+        if (link.edge) edges.unshift(link.edge);
+      }
+      for (let key = backward.get(meeting)!.prev; key !== null; key = backward.get(key)!.prev) {
+        nodes.push(backward.get(key)!.name);
+      }
+      for (let key: string | null = meeting; key !== null; key = backward.get(key)!.prev) {
+        const link = backward.get(key)!;
+        if (link.edge) edges.push(link.edge);
+      }
+
+      return { found: true, nodes, edges, cost: edges.length, nodesExplored: forward.size + backward.size };
+    }
+  }
+
+  return notFound(forward.size + backward.size);
+}
+
+/**
+ * Binary min-heap keyed by a numeric score
+ */
+class MinHeap<T> {
+  private readonly items: T[] = [];
+
+  constructor(private readonly score: (item: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.score(items[parent]) <= this.score(items[i])) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && this.score(items[left]) < this.score(items[smallest])) smallest = left;
+        if (right < items.length && this.score(items[right]) < this.score(items[smallest])) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+interface DijkstraState<E> {
+  key: string;
+  name: string;
+  hops: number;
+  cost: number;
+  prev: DijkstraState<E> | null;
+  edge: E | null;
+}
+
+/**
+ * Weighted shortest path (Dijkstra) limited to maxDepth hops.
+ * A node may be settled more than once when a later, costlier arrival uses
+ * fewer hops, so the hop limit never hides a valid path.
+ */
+export function dijkstraShortestPath<E extends TraversalEdge>(
+  source: string,
+  target: string,
+  maxDepth: number,
+  direction: TraversalDirection,
+  expand: EdgeExpander<E>,
+  weightOf: (edge: E) => number
+): PathResult<E> {
+  const targetKey = nodeKey(target);
+  const fewestHopsSettled = new Map<string, number>();
+  const heap = new MinHeap<DijkstraState<E>>((state) => state.cost);
+  heap.push({ key: nodeKey(source), name: source, hops: 0, cost: 0, prev: null, edge: null });
+
+  while (heap.size > 0) {
+    const state = heap.pop()!;
+    const settledHops = fewestHopsSettled.get(state.key);
+    if (settledHops !== undefined && settledHops <= state.hops) continue;
+    fewestHopsSettled.set(state.key, state.hops);
+
+    if (state.key === targetKey) {
+      const nodes: string[] = [];
+      const edges: E[] = [];
+      for (let s: DijkstraState<E> | null = state; s !== null; s = s.prev) {
+        nodes.unshift(s.name);
+        if (s.edge) edges.unshift(s.edge);
+      }
+      return { found: true, nodes, edges, cost: state.cost, nodesExplored: fewestHopsSettled.size };
+    }
+
+    if (state.hops >= maxDepth) continue;
+
+    for (const edge of expand(state.name, direction)) {
+      for (const neighbor of neighborsVia(edge, state.key, direction)) {
+        const neighborKey = nodeKey(neighbor);
+        const neighborHops = fewestHopsSettled.get(neighborKey);
+        if (neighborHops !== undefined && neighborHops <= state.hops + 1) continue;
+        heap.push({
+          key: neighborKey,
+          name: neighbor,
+          hops: state.hops + 1,
+          cost: state.cost + weightOf(edge),
+          prev: state,
+          edge,
+        });
+      }
+    }
+  }
+
+  return notFound(fewestHopsSettled.size);
+}
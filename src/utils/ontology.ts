@@ -0,0 +1,104 @@
+/**
+ * Entity-Type Ontology
+ * Normalizes entity types through their synonyms and checks relation types,
+ * domains and ranges against a context's ontology
+ */
+
+import { Ontology, OntologyRelationType } from '../types.js';
+import { InvalidInputError, OntologyViolationError } from '../errors.js';
+
+export class OntologyValidator {
+  // Lowercase type names and synonyms -> declared type name
+  private readonly entityTypes = new Map<string, string>();
+  // Lowercase relation type -> declaration; null when any relation type is allowed
+  private readonly relationTypes: Map<string, OntologyRelationType> | null;
+
+  constructor(readonly ontology: Ontology) {
+    for (const type of ontology.entityTypes) {
+      for (const spelling of [type.name, ...(type.synonyms ?? [])]) {
+        const declared = this.entityTypes.get(spelling.toLowerCase());
+        if (declared !== undefined && declared !== type.name) {
+          throw new InvalidInputError('entityTypes', spelling, `a spelling used by one type only (also ${declared})`);
+        }
+        this.entityTypes.set(spelling.toLowerCase(), type.name);
+      }
+    }
+
+    this.relationTypes = ontology.relationTypes ? new Map() : null;
+    for (const relation of ontology.relationTypes ?? []) {
+      // Domains and ranges are stored by declared name, so synonyms may be used there too
+      const resolve = (types: string[] | undefined, field: string) => types?.map(type => {
+        const declared = this.normalizeEntityType(type);
+        if (declared === undefined) {
+          throw new InvalidInputError(field, type, 'an entity type declared in the ontology');
+        }
+        return declared;
+      });
+      this.relationTypes!.set(relation.name.toLowerCase(), {
+        name: relation.name,
+        domain: resolve(relation.domain, 'domain'),
+        range: resolve(relation.range, 'range')
+      });
+    }
+  }
+
+  // Declared name of an entity type or one of its synonyms
+  normalizeEntityType(type: string): string | undefined {
+    return this.entityTypes.get(type.toLowerCase());
+  }
+
+  /**
+   * Type to store for an entity: the declared name for known spellings, or the
+   * type as given when a lenient ontology does not know it
+   */
+  checkEntity(name: string, entityType: string, warnings: string[]): string {
+    const declared = this.normalizeEntityType(entityType);
+    if (declared !== undefined) return declared;
+
+    this.violation('entityType', entityType, `unknown entity type '${entityType}' for '${name}'`, warnings);
+    return entityType;
+  }
+
+  /**
+   * Checks a relation type and the types of its ends; an end whose entity
+   * does not exist (type undefined) is not checked
+   */
+  checkRelation(
+    relation: { from: string; to: string; relationType: string },
+    fromType: string | undefined,
+    toType: string | undefined,
+    warnings: string[]
+  ): void {
+    if (!this.relationTypes) return;
+
+    const declaration = this.relationTypes.get(relation.relationType.toLowerCase());
+    if (!declaration) {
+      this.violation('relationType', relation.relationType, `unknown relation type '${relation.relationType}'`, warnings);
+      return;
+    }
+
+    const ends: [string, string | undefined, string[] | undefined, string][] = [
+      [relation.from, fromType, declaration.domain, 'from'],
+      [relation.to, toType, declaration.range, 'to']
+    ];
+    for (const [entityName, type, allowed, field] of ends) {
+      if (type === undefined || !allowed) continue;
+      const declared = this.normalizeEntityType(type) ?? type;
+      if (!allowed.includes(declared)) {
+        this.violation(
+          field,
+          entityName,
+          `'${declaration.name}' expects ${allowed.join(' or ')} at the ${field} end, but '${entityName}' is ${type}`,
+          warnings
+        );
+      }
+    }
+  }
+
+  private violation(field: string, value: string, reason: string, warnings: string[]): void {
+    if (this.ontology.mode === 'strict') {
+      throw new OntologyViolationError(field, value, reason);
+    }
+    warnings.push(reason);
+  }
+}
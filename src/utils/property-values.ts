@@ -0,0 +1,79 @@
+/**
+ * Typed Entity Properties
+ * Conversion between property values and their SQLite storage columns
+ */
+
+import { PropertyType, PropertyValue, PropertyInput, TypedPropertyValue } from '../types.js';
+import { InvalidInputError } from '../errors.js';
+
+export interface StoredPropertyValue {
+  type: PropertyType;
+  // Strings, and dates as given (ISO 8601)
+  text: string | null;
+  // Numbers, booleans (0/1) and dates (epoch ms) - what range filters compare
+  number: number | null;
+}
+
+// Calendar dates and ISO 8601 timestamps are stored as dates unless typed otherwise
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+function isTypedValue(input: PropertyInput): input is TypedPropertyValue {
+  return typeof input === 'object' && input !== null;
+}
+
+export function inferPropertyType(value: PropertyValue): PropertyType {
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  return ISO_DATE.test(value) ? 'date' : 'string';
+}
+
+export function encodePropertyValue(key: string, input: PropertyInput): StoredPropertyValue {
+  const value = isTypedValue(input) ? input.value : input;
+  const type = isTypedValue(input) ? input.type : inferPropertyType(value);
+
+  switch (type) {
+    case 'string':
+      return { type, text: String(value), number: null };
+
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(value);
+      if (typeof value === 'boolean' || !Number.isFinite(number)) {
+        throw new InvalidInputError(key, value, 'a finite number');
+      }
+      return { type, text: null, number };
+    }
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        throw new InvalidInputError(key, value, 'a boolean');
+      }
+      return { type, text: null, number: value ? 1 : 0 };
+
+    case 'date': {
+      const time = typeof value === 'number' ? value : Date.parse(String(value));
+      if (typeof value === 'boolean' || !Number.isFinite(time)) {
+        throw new InvalidInputError(key, value, 'an ISO 8601 date');
+      }
+      return {
+        type,
+        text: typeof value === 'string' ? value : new Date(time).toISOString(),
+        number: time
+      };
+    }
+  }
+}
+
+export function decodePropertyValue(
+  type: PropertyType,
+  text: string | null,
+  number: number | null
+): PropertyValue {
+  switch (type) {
+    case 'number':
+      return number!;
+    case 'boolean':
+      return number === 1;
+    default:
+      return text!;
+  }
+}
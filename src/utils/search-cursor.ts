@@ -0,0 +1,64 @@
+/**
+ * Search Cursors
+ * Opaque positions in the ranking of a search, one offset per searched context.
+ * An offset counts hits into the live ranking, so a write between pages that
+ * adds, removes or reorders hits makes the next page skip or repeat some. bm25
+ * scores shift with every write too, so a position keyed on score would not
+ * hold either.
+ */
+
+import { createHash } from 'crypto';
+import { SearchOptions } from '../types.js';
+import { InvalidInputError } from '../errors.js';
+
+interface CursorPayload {
+  // Fingerprint of the search the cursor belongs to
+  search: string;
+  // Hits already returned from each context
+  offsets: Record<string, number>;
+}
+
+// JSON with object keys sorted, so equal options always serialize the same way
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonical(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Identifies a search by what decides its ranking. Page size and how results
+ * are shaped (provenance, result mode) may change between pages.
+ */
+function fingerprint(options: SearchOptions): string {
+  const { limit, offset, cursor, includeProvenance, resultMode, ...ranking } = options;
+  return createHash('sha256').update(canonical(ranking)).digest('base64url').slice(0, 16);
+}
+
+export function encodeSearchCursor(options: SearchOptions, offsets: Record<string, number>): string {
+  const payload: CursorPayload = { search: fingerprint(options), offsets };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+// Offsets per context for the page after the cursor; empty when there is no cursor
+export function decodeSearchCursor(options: SearchOptions): Record<string, number> {
+  if (options.cursor === undefined) return {};
+
+  let payload: CursorPayload | undefined;
+  try {
+    payload = JSON.parse(Buffer.from(options.cursor, 'base64url').toString('utf8'));
+  } catch {
+    payload = undefined;
+  }
+  if (!payload || typeof payload.offsets !== 'object' || payload.offsets === null) {
+    throw new InvalidInputError('cursor', options.cursor, 'a nextCursor returned by search_nodes');
+  }
+  if (payload.search !== fingerprint(options)) {
+    throw new InvalidInputError('cursor', options.cursor, 'a cursor from the same search (query, filters and context)');
+  }
+  return payload.offsets;
+}
@@ -0,0 +1,97 @@
+/**
+ * Search Match Details
+ * Turns FTS5 highlight() output, or a plain substring, into per-observation matches
+ */
+
+import { EntityResult, SearchMatch } from '../types.js';
+
+// Markers SQLite wraps matched terms in; control characters cannot clash with user text
+export const MATCH_START = '\u0001';
+export const MATCH_END = '\u0002';
+
+const HIGHLIGHT_OPEN = '**';
+const HIGHLIGHT_CLOSE = '**';
+
+// Characters of context kept on each side of a substring match in its snippet
+const SNIPPET_CONTEXT = 40;
+
+function toHighlight(marked: string): string {
+  return marked.split(MATCH_START).join(HIGHLIGHT_OPEN).split(MATCH_END).join(HIGHLIGHT_CLOSE);
+}
+
+/**
+ * Builds the match for an FTS hit. markedObservations is the highlight() of the
+ * observations column: observations joined by newlines in id order, so each
+ * observation spans as many lines as it contains.
+ */
+export function ftsMatch(
+  entity: EntityResult,
+  score: number,
+  markedObservations: string | null,
+  markedSnippet: string
+): SearchMatch {
+  const lines = (markedObservations ?? '').split('\n');
+  const observations: number[] = [];
+  const highlights: string[] = [];
+
+  let line = 0;
+  entity.observations.forEach((observation, index) => {
+    const span = observation.split('\n').length;
+    const marked = lines.slice(line, line + span).join('\n');
+    line += span;
+    if (marked.includes(MATCH_START)) {
+      observations.push(index);
+      highlights.push(toHighlight(marked));
+    }
+  });
+
+  return { score, observations, highlights, snippet: toHighlight(markedSnippet) };
+}
+
+function markSubstring(text: string, query: string): string | undefined {
+  const start = text.toLowerCase().indexOf(query.toLowerCase());
+  if (start < 0) return undefined;
+  const end = start + query.length;
+  return text.slice(0, start) + MATCH_START + text.slice(start, end) + MATCH_END + text.slice(end);
+}
+
+// Builds the match for a hit of the substring (LIKE) fallback, which has no relevance score
+export function substringMatch(entity: EntityResult, query: string): SearchMatch {
+  const observations: number[] = [];
+  const highlights: string[] = [];
+  let snippet: string | undefined;
+
+  entity.observations.forEach((observation, index) => {
+    const marked = markSubstring(observation, query);
+    if (marked === undefined) return;
+    observations.push(index);
+    highlights.push(toHighlight(marked));
+    if (snippet === undefined) {
+      const start = marked.indexOf(MATCH_START);
+      const end = marked.indexOf(MATCH_END) + MATCH_END.length;
+      const from = Math.max(0, start - SNIPPET_CONTEXT);
+      const to = Math.min(marked.length, end + SNIPPET_CONTEXT);
+      snippet = (from > 0 ? '…' : '') + marked.slice(from, to) + (to < marked.length ? '…' : '');
+    }
+  });
+
+  if (snippet === undefined) {
+    // Only the name, type or an alias matched
+    snippet = [entity.name, entity.entityType, ...(entity.aliases ?? [])]
+      .map(text => markSubstring(text, query))
+      .find(marked => marked !== undefined) ?? entity.name;
+  }
+
+  return { score: 0, observations, highlights, snippet: toHighlight(snippet) };
+}
+
+// Keeps only the matched observations (and their provenance) of a search hit
+export function onlyMatchedObservations(entity: EntityResult): EntityResult {
+  if (!entity.match) return entity;
+  const { observations } = entity.match;
+  return {
+    ...entity,
+    observations: observations.map(index => entity.observations[index]),
+    ...(entity.provenance && { provenance: observations.map(index => entity.provenance![index]) })
+  };
+}